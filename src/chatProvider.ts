@@ -13,13 +13,44 @@ import * as vscode from "vscode";
 import * as path from "path";
 import {
   ChatMessage,
+  ChatSession,
   FileReference,
-  WebviewMessageType,
-  WebviewMessage,
+  GenerationStats,
+  LLMModelInfo,
+  RequestOptions,
 } from "./types";
-import { StringUtils, FileUtils, ErrorUtils } from "./utils";
+import {
+  StringUtils,
+  FileUtils,
+  ErrorUtils,
+  CancellationUtils,
+} from "./utils";
 import { FileManager, FileAttachmentManager } from "./fileManager";
+import { LLMProvider } from "./llmProvider";
 import { OllamaService } from "./ollamaService";
+import {
+  ConnectionRefusedError,
+  ContextOverflowError,
+  LLMError,
+  ModelNotFoundError,
+} from "./errors";
+import { PromptBuilder } from "./promptBuilder";
+import {
+  ChatSessionManager,
+  DEFAULT_SESSION_TITLE,
+} from "./chatSessionManager";
+import { CodeBlockActions } from "./codeBlockActions";
+import { SlashCommand, SlashCommandRegistry } from "./slashCommands";
+import { MentionProvider } from "./mentions";
+import { RECONNECT_COMMAND } from "./connectionMonitor";
+import {
+  ChatMessageData,
+  CodeBlockAction,
+  ErrorAction,
+  ExtensionToWebviewMessage,
+  MentionKind,
+  parseWebviewMessage,
+} from "./webview/protocol";
 
 /**
  * Main chat provider that handles the webview and chat functionality
@@ -28,20 +59,58 @@ export class ChatProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "aiAssistantChat";
 
   private _view?: vscode.WebviewView;
-  private messages: ChatMessage[] = [];
   private fileManager: FileManager;
   private fileAttachmentManager: FileAttachmentManager;
-  private ollamaService: OllamaService;
+  private llmProvider: LLMProvider;
+  private promptBuilder: PromptBuilder;
+  private activeRequest?: AbortController;
+  private sessionManager: ChatSessionManager;
+  private models: LLMModelInfo[] = [];
+  private codeBlockActions: CodeBlockActions;
+  private slashCommands: SlashCommandRegistry;
+  private mentionProvider: MentionProvider;
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
     fileManager: FileManager,
     fileAttachmentManager: FileAttachmentManager,
-    ollamaService: OllamaService,
+    llmProvider: LLMProvider,
+    sessionManager: ChatSessionManager,
+    codeBlockActions: CodeBlockActions,
   ) {
     this.fileManager = fileManager;
     this.fileAttachmentManager = fileAttachmentManager;
-    this.ollamaService = ollamaService;
+    this.llmProvider = llmProvider;
+    this.sessionManager = sessionManager;
+    this.codeBlockActions = codeBlockActions;
+    this.promptBuilder = new PromptBuilder();
+    this.slashCommands = new SlashCommandRegistry();
+    this.mentionProvider = new MentionProvider(fileManager);
+
+    // Show the selected conversation whenever the user switches sessions
+    this.sessionManager.onDidChangeActiveSession(() => {
+      this.stopGeneration();
+      this.updateWebviewMessages();
+      this.updateWebviewSession();
+      this.updateWebviewModels();
+    });
+    this.sessionManager.onDidChangeSessions(() => this.updateWebviewSession());
+
+    // Show outages in the chat and reload the models once the server is back
+    let connected = this.llmProvider.getConnectionStatus().connected;
+    this.llmProvider.onDidChangeStatus(() => {
+      const status = this.llmProvider.getConnectionStatus();
+      if (status.connected === connected) {
+        return;
+      }
+      connected = status.connected;
+      this.updateWebviewConnection();
+      if (connected) {
+        this.refreshModels();
+      } else {
+        this.updateWebviewModels();
+      }
+    });
   }
 
   /**
@@ -63,50 +132,105 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage(
-      (message: WebviewMessage) => this.handleWebviewMessage(message),
+      (message: unknown) => this.handleWebviewMessage(message),
       undefined,
       [],
     );
 
     // Send initial state
+    this.updateWebviewSession();
+    this.updateWebviewCommands();
     this.updateWebviewMessages();
     this.updateWebviewStagedFiles();
+    this.updateWebviewGenerationState();
+    this.updateWebviewConnection();
+    this.refreshModels();
   }
 
   /**
    * Handles messages received from the webview
    */
-  private async handleWebviewMessage(message: WebviewMessage): Promise<void> {
+  private async handleWebviewMessage(received: unknown): Promise<void> {
+    const message = parseWebviewMessage(received);
+    if (!message) {
+      console.warn("[ChatProvider] Ignoring invalid message:", received);
+      return;
+    }
+
     console.log("[ChatProvider] Received message:", message.type);
 
     try {
       switch (message.type) {
-        case WebviewMessageType.SEND_MESSAGE:
+        case "sendMessage":
           await this.handleSendMessage(message.text);
           break;
 
-        case WebviewMessageType.ATTACH_FILE:
+        case "attachFile":
           await this.handleAttachFile();
           break;
 
-        case WebviewMessageType.CLEAR_STAGED_FILE:
+        case "removeStagedFile":
+          this.handleRemoveStagedFile(message.index);
+          break;
+
+        case "clearStagedFile":
           this.handleClearStagedFiles();
           break;
 
-        case WebviewMessageType.FILES_DROPPED:
+        case "filesDropped":
           await this.handleFilesDropped(message.files);
           break;
 
-        case WebviewMessageType.TEXT_DROPPED:
+        case "textDropped":
           await this.handleTextDropped(message.text);
           break;
 
-        case WebviewMessageType.CLEAR_CHAT:
+        case "dropFailed":
+          console.warn("[ChatProvider] Drop failed:", message.debugInfo);
+          vscode.window.showWarningMessage(message.message);
+          break;
+
+        case "clearChat":
           this.clearMessages();
           break;
 
-        default:
-          console.warn("[ChatProvider] Unknown message type:", message.type);
+        case "stopGeneration":
+          this.stopGeneration();
+          break;
+
+        case "selectModel":
+          this.selectModel(message.model);
+          break;
+
+        case "refreshModels":
+          await this.refreshModels();
+          break;
+
+        case "reconnect":
+          await vscode.commands.executeCommand(RECONNECT_COMMAND);
+          this.updateWebviewConnection();
+          break;
+
+        case "errorAction":
+          await this.handleErrorAction(message.action, message.messageId);
+          break;
+
+        case "searchMentions":
+          await this.handleSearchMentions(message.query);
+          break;
+
+        case "addMention":
+          await this.handleAddMention(message.kind, message.uri);
+          break;
+
+        case "codeAction":
+          await this.handleCodeAction(
+            message.action,
+            message.code,
+            message.language,
+            message.messageId,
+          );
+          break;
       }
     } catch (error) {
       console.error("[ChatProvider] Error handling message:", error);
@@ -118,116 +242,502 @@ export class ChatProvider implements vscode.WebviewViewProvider {
   /**
    * Handles sending a message
    */
-  private async handleSendMessage(text: string): Promise<void> {
+  private async handleSendMessage(
+    text: string,
+    attachments: FileReference[] = [],
+  ): Promise<void> {
     if (!text?.trim()) {
       vscode.window.showWarningMessage("Please enter a message");
       return;
     }
 
-    try {
-      // Get any staged files for the user message
-      const attachedFiles = this.fileAttachmentManager.consumeStagedFiles();
-      const fileReference =
-        attachedFiles.length > 0 ? attachedFiles[0] : undefined;
+    if (this.activeRequest) {
+      vscode.window.showWarningMessage(
+        "Please wait for the current response or stop it first",
+      );
+      return;
+    }
 
-      // Add user message
-      const userMessage: ChatMessage = {
-        id: StringUtils.generateId(),
-        sender: "user",
-        content: text,
-        timestamp: new Date(),
-        fileReference,
-      };
+    // Replies always go to the session the question was asked in
+    const session = this.sessionManager.getActiveSession();
+    const invocation = this.slashCommands.parse(text);
 
-      this.addMessage(userMessage);
+    if (invocation?.command.kind === "help") {
+      this.replyWithHelp(session, text);
+      return;
+    }
 
-      // Show typing indicator
-      this.sendToWebview({
-        type: WebviewMessageType.UPDATE_MESSAGES,
-        messages: [
-          ...this.messages,
-          {
-            id: "typing",
-            sender: "assistant",
-            content: "Thinking...",
-            timestamp: new Date(),
-          },
-        ],
-      });
+    // Every staged file goes with the user message, plus the code a
+    // slash command works on
+    const attachedFiles = this.getCommandFiles(invocation?.command, [
+      ...this.fileAttachmentManager.getStagedFiles(),
+      ...attachments,
+    ]);
+    this.fileAttachmentManager.clearStagedFiles();
+    this.updateWebviewStagedFiles();
 
-      // Get AI response
-      let prompt = text;
-      if (fileReference) {
-        prompt = this.createFilePrompt(text, fileReference);
-      }
+    // Add user message
+    const userMessage: ChatMessage = {
+      id: StringUtils.generateId(),
+      sender: "user",
+      content: text,
+      timestamp: new Date(),
+      fileReferences: attachedFiles.length > 0 ? attachedFiles : undefined,
+    };
+
+    this.addMessage(session, userMessage);
+    await this.generateReply(session, userMessage);
+  }
 
-      // Check if Ollama service is available
-      const connectionStatus = this.ollamaService.getConnectionStatus();
-      if (!connectionStatus.connected) {
+  /**
+   * Asks the model to answer a user message, streaming the reply into the
+   * session. Failures are added to the session as error messages.
+   */
+  private async generateReply(
+    session: ChatSession,
+    userMessage: ChatMessage,
+  ): Promise<void> {
+    const invocation = this.slashCommands.parse(userMessage.content);
+    const attachedFiles = userMessage.fileReferences ?? [];
+    const model = this.getSessionModel(session);
+
+    let assistantMessage: ChatMessage | undefined;
+    const request = new AbortController();
+    this.activeRequest = request;
+    this.updateWebviewGenerationState();
+
+    try {
+      // Commands that work on code need some code to work on
+      if (
+        invocation &&
+        invocation.command.context !== "none" &&
+        attachedFiles.length === 0
+      ) {
         throw new Error(
-          "AI service is not available. Please make sure Ollama is running.",
+          `Select some code or attach a file to use /${invocation.command.name}`,
         );
       }
 
-      // Get any remaining staged files for context
-      const contextFiles = this.fileAttachmentManager.getStagedFiles();
-      let context = "";
-
-      if (contextFiles.length > 0) {
-        context = contextFiles
-          .map(
-            (file) =>
-              `File: ${file.fileName}\nLanguage: ${file.language}\nContent:\n${file.content}\n`,
-          )
-          .join("\n---\n");
+      // Check if the model server is available, re-checking a server
+      // that was down in case it has come back since the last check
+      if (
+        !this.llmProvider.getConnectionStatus().connected &&
+        !(await this.llmProvider.checkConnection())
+      ) {
+        throw new ConnectionRefusedError(
+          this.llmProvider.displayName,
+          this.llmProvider.getConnectionStatus().url,
+        );
       }
 
-      // Generate AI response using the correct method
-      const aiResponse = await this.ollamaService.getCodingHelp(text, context);
-
-      // Remove typing indicator and add real response
-      const assistantMessage: ChatMessage = {
+      // Add an empty assistant message that is filled in as tokens arrive
+      assistantMessage = {
         id: StringUtils.generateId(),
         sender: "assistant",
-        content: aiResponse,
+        content: "",
         timestamp: new Date(),
+        model,
       };
+      this.addMessage(session, assistantMessage);
+
+      const streamingMessage = assistantMessage;
+      const onToken = (delta: string) => {
+        streamingMessage.content += delta;
+        if (!this.sessionManager.isActiveSession(session.id)) {
+          return;
+        }
+        this.sendToWebview({
+          type: "appendMessageContent",
+          messageId: streamingMessage.id,
+          delta,
+        });
+      };
+      const requestOptions = {
+        signal: request.signal,
+        onModelFallback: (requestedModel: string, fallbackModel: string) => {
+          streamingMessage.model = fallbackModel;
+          streamingMessage.requestedModel = requestedModel;
+          this.updateWebviewMessages(session);
+        },
+        onStats: (stats: GenerationStats) => {
+          streamingMessage.stats = stats;
+        },
+      };
+
+      const systemPrompt = this.slashCommands.getSystemPrompt(invocation);
 
-      this.addMessage(assistantMessage);
+      let aiResponse: string;
+      if (invocation?.command.kind === "review") {
+        aiResponse = await this.reviewFiles(
+          attachedFiles,
+          invocation.args,
+          onToken,
+          model,
+          requestOptions,
+        );
+      } else {
+        // Send the whole conversation so follow-ups keep their context,
+        // trimming older turns and attachments to fit the model
+        this.promptBuilder.setContextWindow(
+          await this.llmProvider.getModelContextWindow(model),
+        );
+        this.reportContextTrimming(session.messages, systemPrompt);
+        const conversation = this.promptBuilder.buildConversation(
+          this.expandSlashCommands(session.messages),
+          systemPrompt,
+        );
+        aiResponse = await this.llmProvider.streamChatResponse(
+          conversation,
+          onToken,
+          model,
+          requestOptions,
+        );
+      }
+
+      // Replace the streamed content with the final, trimmed response
+      streamingMessage.content = aiResponse;
+      this.sessionManager.notifySessionChanged(session);
+      this.updateWebviewMessages(session);
+
+      if (session.messages.length === 2) {
+        this.generateSessionTitle(session);
+      }
     } catch (error) {
-      ErrorUtils.logError("ChatProvider.handleSendMessage", error);
+      if (CancellationUtils.isCancellation(error)) {
+        this.handleGenerationStopped(session, assistantMessage);
+        return;
+      }
+
+      ErrorUtils.logError("ChatProvider.generateReply", error);
 
-      // Add error message
+      // Drop the in-progress assistant message before reporting the error
+      if (assistantMessage) {
+        this.removeMessage(session, assistantMessage);
+      }
+
+      // Add error message, with the actions that may fix the problem
       const errorMessage: ChatMessage = {
         id: StringUtils.generateId(),
         sender: "assistant",
         content: `Error: ${ErrorUtils.createUserFriendlyError(error)}`,
         timestamp: new Date(),
+        isError: true,
+        errorActions: this.getErrorActions(error),
+        model: error instanceof ModelNotFoundError ? error.model : undefined,
       };
 
-      this.addMessage(errorMessage);
+      this.addMessage(session, errorMessage);
+    } finally {
+      if (this.activeRequest === request) {
+        this.activeRequest = undefined;
+        this.updateWebviewGenerationState();
+      }
+    }
+  }
+
+  /**
+   * Picks the actions offered on an error message
+   */
+  private getErrorActions(error: unknown): ErrorAction[] | undefined {
+    if (error instanceof ConnectionRefusedError) {
+      return ["serverHelp", "retry"];
+    } else if (error instanceof ModelNotFoundError) {
+      return this.llmProvider instanceof OllamaService
+        ? ["pullModel", "retry"]
+        : ["retry"];
+    } else if (error instanceof ContextOverflowError) {
+      return ["newChat"];
+    } else if (error instanceof LLMError) {
+      return ["retry"];
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs an action offered on an error message
+   */
+  private async handleErrorAction(
+    action: ErrorAction,
+    messageId: string,
+  ): Promise<void> {
+    const session = this.sessionManager.getActiveSession();
+    const index = session.messages.findIndex((m) => m.id === messageId);
+    const errorMessage = session.messages[index];
+    if (!errorMessage?.isError) {
+      return;
+    }
+
+    switch (action) {
+      case "retry":
+        await this.retryReply(session, index);
+        break;
+
+      case "pullModel":
+        await vscode.commands.executeCommand(
+          "ai-assistant.pullModel",
+          errorMessage.model,
+        );
+        break;
+
+      case "serverHelp":
+        await vscode.commands.executeCommand("ai-assistant.showServerHelp");
+        break;
+
+      case "newChat":
+        await vscode.commands.executeCommand("ai-assistant.newChat");
+        break;
+    }
+  }
+
+  /**
+   * Replaces the error message at the end of a session with a new answer
+   * to the question before it
+   */
+  private async retryReply(session: ChatSession, index: number): Promise<void> {
+    if (this.activeRequest) {
+      vscode.window.showWarningMessage(
+        "Please wait for the current response or stop it first",
+      );
+      return;
+    }
+
+    const userMessage = session.messages[index - 1];
+    if (
+      index !== session.messages.length - 1 ||
+      userMessage?.sender !== "user"
+    ) {
+      vscode.window.showWarningMessage("Only the last message can be retried");
+      return;
+    }
+
+    this.removeMessage(session, session.messages[index]);
+    await this.generateReply(session, userMessage);
+  }
+
+  /**
+   * Tells the user when the conversation is larger than the prompt budget,
+   * so older messages and attachments will be left out or cut short
+   */
+  private reportContextTrimming(
+    history: ChatMessage[],
+    systemPrompt: string,
+  ): void {
+    const usage = this.promptBuilder.measureContext(history, systemPrompt);
+    const used =
+      usage.systemTokens + usage.historyTokens + usage.attachmentTokens;
+    if (used <= usage.budget) {
+      return;
+    }
+
+    console.log(
+      `[ChatProvider] Trimming ~${used} tokens to a ${usage.budget} token budget`,
+    );
+    vscode.window.setStatusBarMessage(
+      `$(warning) Conversation trimmed to fit the ${usage.contextWindow.toLocaleString()} token context window`,
+      5000,
+    );
+  }
+
+  /**
+   * Answers /help locally, without calling the model
+   */
+  private replyWithHelp(session: ChatSession, text: string): void {
+    this.addMessage(session, {
+      id: StringUtils.generateId(),
+      sender: "user",
+      content: text,
+      timestamp: new Date(),
+    });
+    this.addMessage(session, {
+      id: StringUtils.generateId(),
+      sender: "assistant",
+      content: this.slashCommands.createHelpText(),
+      timestamp: new Date(),
+    });
+    this.updateWebviewGenerationState();
+  }
+
+  /**
+   * Adds the code a slash command works on to the staged files
+   */
+  private getCommandFiles(
+    command: SlashCommand | undefined,
+    stagedFiles: FileReference[],
+  ): FileReference[] {
+    if (!command || command.context === "none") {
+      return stagedFiles;
+    }
+
+    const editor =
+      vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+    const selection =
+      editor && !editor.selection.isEmpty
+        ? this.fileManager.createFileReferenceFromDocument(
+            editor.document,
+            editor.document.getText(editor.selection),
+          )
+        : undefined;
+
+    if (command.context === "selection" && selection) {
+      return [...stagedFiles, selection];
+    }
+    if (stagedFiles.length > 0) {
+      return stagedFiles;
+    }
+    if (selection) {
+      return [selection];
+    }
+    return editor
+      ? [this.fileManager.createFileReferenceFromDocument(editor.document)]
+      : [];
+  }
+
+  /**
+   * Rewrites slash commands in the history into the requests they stand for
+   */
+  private expandSlashCommands(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map((message) =>
+      message.sender === "user"
+        ? { ...message, content: this.slashCommands.expand(message.content) }
+        : message,
+    );
+  }
+
+  /**
+   * Reviews each file with the provider's code analysis prompt, reporting
+   * every finished review through onToken
+   */
+  private async reviewFiles(
+    files: FileReference[],
+    question: string,
+    onToken: (delta: string) => void,
+    model: string,
+    options: RequestOptions,
+  ): Promise<string> {
+    const reviews: string[] = [];
+
+    for (const file of files) {
+      const review = await this.llmProvider.analyzeCode(
+        file.content,
+        file.fileName,
+        file.language,
+        question || undefined,
+        model,
+        options,
+      );
+
+      const section =
+        files.length > 1 ? `### ${file.fileName}\n\n${review}` : review;
+      onToken(reviews.length > 0 ? `\n\n${section}` : section);
+      reviews.push(section);
+    }
+
+    return reviews.join("\n\n");
+  }
+
+  /**
+   * Keeps whatever was streamed before the user stopped the response
+   */
+  private handleGenerationStopped(
+    session: ChatSession,
+    assistantMessage?: ChatMessage,
+  ): void {
+    if (assistantMessage) {
+      assistantMessage.content = assistantMessage.content.trim();
+      if (!assistantMessage.content) {
+        this.removeMessage(session, assistantMessage);
+      }
     }
+    this.sessionManager.notifySessionChanged(session);
+    this.updateWebviewMessages(session);
   }
 
   /**
-   * Creates a prompt that includes file context
+   * Gets the model that answers in a session
    */
-  private createFilePrompt(
-    userMessage: string,
-    fileReference: FileReference,
-  ): string {
-    const fileInfo = `File: ${fileReference.fileName} (${fileReference.language})
-Lines: ${fileReference.lineCount}
-Size: ${FileUtils.formatFileSize(fileReference.size || 0)}
+  private getSessionModel(session: ChatSession): string {
+    return session.model || this.llmProvider.getDefaultModel();
+  }
 
-Content:
-\`\`\`${fileReference.language}
-${fileReference.content}
-\`\`\`
+  /**
+   * Gets the model that answers in the active session
+   */
+  public getSelectedModel(): string {
+    return this.getSessionModel(this.sessionManager.getActiveSession());
+  }
 
-`;
+  /**
+   * Remembers the model picked in the chat header for the active session
+   */
+  public selectModel(model: string): void {
+    if (!model) {
+      return;
+    }
 
-    return `${fileInfo}User question: ${userMessage}`;
+    const session = this.sessionManager.getActiveSession();
+    session.model = model;
+    this.sessionManager.notifySessionChanged(session);
+    this.updateWebviewModels();
+    this.updateWebviewContextUsage();
+  }
+
+  /**
+   * Fetches the model list from the server and updates the picker
+   */
+  public async refreshModels(): Promise<void> {
+    this.models = await this.llmProvider.listModels();
+    this.updateWebviewModels();
+  }
+
+  /**
+   * Runs a code block action from an answer. Files attached up to that
+   * answer are the candidates for applying the code.
+   */
+  private async handleCodeAction(
+    action: CodeBlockAction,
+    code: string,
+    language: string | undefined,
+    messageId: string,
+  ): Promise<void> {
+    const session = this.sessionManager.getActiveSession();
+    const index = session.messages.findIndex((m) => m.id === messageId);
+    const messages =
+      index >= 0 ? session.messages.slice(0, index + 1) : session.messages;
+
+    const attachments = messages
+      .filter((m) => m.sender === "user")
+      .flatMap((m) => m.fileReferences ?? [])
+      .reverse();
+
+    await this.codeBlockActions.run(action, code, language, attachments);
+  }
+
+  /**
+   * Sends a message as if the user typed it, with extra files attached
+   */
+  public async sendMessage(
+    text: string,
+    attachments: FileReference[] = [],
+  ): Promise<void> {
+    await this.handleSendMessage(text, attachments);
+  }
+
+  /**
+   * Stages files for the next message and shows them in the chat
+   */
+  public attachFiles(fileReferences: FileReference[]): void {
+    this.fileAttachmentManager.stageFiles(fileReferences);
+    this.updateWebviewStagedFiles();
+  }
+
+  /**
+   * Cancels the in-flight AI request, if any
+   */
+  public stopGeneration(): void {
+    if (this.activeRequest) {
+      console.log("[ChatProvider] Stopping generation");
+      this.activeRequest.abort();
+    }
   }
 
   /**
@@ -252,6 +762,49 @@ ${fileReference.content}
     }
   }
 
+  /**
+   * Sends the @-mention suggestions for what was typed after the @
+   */
+  private async handleSearchMentions(query: string): Promise<void> {
+    try {
+      const mentions = await this.mentionProvider.getSuggestions(query);
+      this.sendToWebview({ type: "mentionSuggestions", query, mentions });
+    } catch (error) {
+      ErrorUtils.logError("ChatProvider.handleSearchMentions", error);
+      this.sendToWebview({ type: "mentionSuggestions", query, mentions: [] });
+    }
+  }
+
+  /**
+   * Stages the context a chosen @-mention stands for
+   */
+  private async handleAddMention(
+    kind: MentionKind,
+    uri: string | undefined,
+  ): Promise<void> {
+    try {
+      const fileReferences = await this.mentionProvider.resolve(kind, uri);
+      this.fileAttachmentManager.stageFiles(fileReferences);
+      this.updateWebviewStagedFiles();
+    } catch (error) {
+      ErrorUtils.logError("ChatProvider.handleAddMention", error);
+      vscode.window.showWarningMessage(
+        ErrorUtils.createUserFriendlyError(error),
+      );
+    }
+  }
+
+  /**
+   * Handles removing one staged file, by its position in the staged list
+   */
+  private handleRemoveStagedFile(index: number): void {
+    const fileReference = this.fileAttachmentManager.getStagedFiles()[index];
+    if (fileReference) {
+      this.fileAttachmentManager.removeStagedFile(fileReference);
+    }
+    this.updateWebviewStagedFiles();
+  }
+
   /**
    * Handles clearing staged files
    */
@@ -325,7 +878,7 @@ ${fileReference.content}
       ErrorUtils.logError("ChatProvider.handleFilesDropped", error);
 
       this.sendToWebview({
-        type: WebviewMessageType.DROP_FAILED,
+        type: "dropFailed",
         error: ErrorUtils.createUserFriendlyError(error),
       });
 
@@ -351,7 +904,7 @@ ${fileReference.content}
       } catch (error) {
         ErrorUtils.logError("ChatProvider.handleTextDropped", error);
         this.sendToWebview({
-          type: WebviewMessageType.DROP_FAILED,
+          type: "dropFailed",
           error: ErrorUtils.createUserFriendlyError(error),
         });
       }
@@ -359,44 +912,187 @@ ${fileReference.content}
   }
 
   /**
-   * Adds a message to the chat
+   * Adds a message to a session, titling the session after its first question
    */
-  private addMessage(message: ChatMessage): void {
-    this.messages.push(message);
-    this.updateWebviewMessages();
+  private addMessage(session: ChatSession, message: ChatMessage): void {
+    session.messages.push(message);
+
+    if (message.sender === "user" && session.title === DEFAULT_SESSION_TITLE) {
+      session.title = ChatSessionManager.createTitle(message.content);
+    }
+
+    this.sessionManager.notifySessionChanged(session);
+    this.updateWebviewMessages(session);
+  }
+
+  /**
+   * Asks the model for a short title summarising the first exchange.
+   * Runs in the background; the title from the first question is kept
+   * if this fails or the user renamed the session meanwhile.
+   */
+  private async generateSessionTitle(session: ChatSession): Promise<void> {
+    const [question, answer] = session.messages;
+    const provisionalTitle = session.title;
+
+    try {
+      const response = await this.llmProvider.generateResponse(
+        `Question: ${StringUtils.truncate(question.content, 500)}\n\nAnswer: ${StringUtils.truncate(answer.content, 500)}`,
+        undefined,
+        answer.model,
+        "Write a title of at most six words for this conversation. Reply with the title only, without quotes or punctuation at the end.",
+        { priority: "background" },
+      );
+
+      const title = response
+        .trim()
+        .split(/\r?\n/)[0]
+        .replace(/^["'`*#\s]+|["'`*.\s]+$/g, "");
+
+      if (title && session.title === provisionalTitle) {
+        this.sessionManager.renameSession(
+          session.id,
+          ChatSessionManager.createTitle(title),
+        );
+      }
+    } catch (error) {
+      ErrorUtils.logError("ChatProvider.generateSessionTitle", error);
+    }
+  }
+
+  /**
+   * Removes a message from a session
+   */
+  private removeMessage(session: ChatSession, message: ChatMessage): void {
+    this.sessionManager.setMessages(
+      session.id,
+      session.messages.filter((m) => m !== message),
+    );
+    this.updateWebviewMessages(session);
   }
 
   /**
-   * Clears all messages
+   * Clears all messages of the active session
    */
   public clearMessages(): void {
-    this.messages = [];
+    this.stopGeneration();
+    const session = this.sessionManager.getActiveSession();
+    session.title = DEFAULT_SESSION_TITLE;
+    this.sessionManager.setMessages(session.id, []);
     this.updateWebviewMessages();
   }
 
   /**
-   * Gets all messages
+   * Gets all messages of the active session
    */
   public getMessages(): ChatMessage[] {
-    return [...this.messages];
+    return [...this.sessionManager.getActiveSession().messages];
   }
 
   /**
    * Sends a message to the webview
    */
-  private sendToWebview(message: WebviewMessage): void {
+  private sendToWebview(message: ExtensionToWebviewMessage): void {
     if (this._view) {
       this._view.webview.postMessage(message);
     }
   }
 
   /**
-   * Updates the webview with current messages
+   * Updates the webview with the active session's messages.
+   * Changes to a session that is not on screen are ignored.
    */
-  private updateWebviewMessages(): void {
+  private updateWebviewMessages(session?: ChatSession): void {
+    const active = this.sessionManager.getActiveSession();
+    if (session && session !== active) {
+      return;
+    }
+
     this.sendToWebview({
-      type: WebviewMessageType.UPDATE_MESSAGES,
-      messages: this.messages,
+      type: "updateMessages",
+      messages: active.messages.map((message) => this.toMessageData(message)),
+      sessionStats: ChatSessionManager.summarizeStats(active),
+    });
+    this.updateWebviewContextUsage();
+  }
+
+  /**
+   * Converts a message into the form shown by the webview
+   */
+  private toMessageData(message: ChatMessage): ChatMessageData {
+    return {
+      id: message.id,
+      sender: message.sender,
+      content: message.content,
+      timestamp: new Date(message.timestamp).toISOString(),
+      fileReferences: message.fileReferences?.map((fileReference) => ({
+        fileName: fileReference.fileName,
+        filePath: fileReference.filePath,
+      })),
+      isError: message.isError,
+      errorActions: message.errorActions,
+      model: message.model,
+      requestedModel: message.requestedModel,
+      stats: message.stats,
+    };
+  }
+
+  /**
+   * Updates the webview with the active session's title
+   */
+  private updateWebviewSession(): void {
+    const session = this.sessionManager.getActiveSession();
+    this.sendToWebview({
+      type: "updateSession",
+      sessionId: session.id,
+      title: session.title,
+    });
+  }
+
+  /**
+   * Sends the slash commands offered by the input autocomplete
+   */
+  private updateWebviewCommands(): void {
+    this.sendToWebview({
+      type: "updateCommands",
+      commands: this.slashCommands
+        .getAll()
+        .map(({ name, description }) => ({ name, description })),
+    });
+  }
+
+  /**
+   * Tells the webview whether a response is being generated
+   */
+  private updateWebviewGenerationState(): void {
+    this.sendToWebview({
+      type: "updateGenerationState",
+      isGenerating: !!this.activeRequest,
+    });
+  }
+
+  /**
+   * Tells the webview whether the model server is reachable
+   */
+  private updateWebviewConnection(): void {
+    const status = this.llmProvider.getConnectionStatus();
+    this.sendToWebview({
+      type: "updateConnection",
+      connected: status.connected,
+      serverName: this.llmProvider.displayName,
+      serverUrl: status.url,
+    });
+  }
+
+  /**
+   * Updates the model picker with the known models and the session's choice
+   */
+  private updateWebviewModels(): void {
+    const session = this.sessionManager.getActiveSession();
+    this.sendToWebview({
+      type: "updateModels",
+      models: this.models,
+      selectedModel: this.getSessionModel(session),
+      connected: this.llmProvider.getConnectionStatus().connected,
     });
   }
 
@@ -406,32 +1102,90 @@ ${fileReference.content}
   private updateWebviewStagedFiles(): void {
     const stagedFiles = this.fileAttachmentManager.getStagedFiles();
     this.sendToWebview({
-      type: WebviewMessageType.UPDATE_STAGED_FILE,
-      stagedFiles: stagedFiles,
+      type: "updateStagedFile",
+      stagedFiles: stagedFiles.map((fileReference) => ({
+        ...fileReference,
+        tokens: this.promptBuilder.estimateTokens(fileReference.content),
+      })),
     });
+    this.updateWebviewContextUsage();
   }
 
   /**
-   * Generates HTML content for the webview
+   * Updates the budget meter with the estimated size of the conversation
+   * and the staged files against the model's context window
    */
-  private _getHtmlForWebview(webview: vscode.Webview): string {
-    const scriptUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(
-        this._extensionUri,
-        "src",
-        "webview",
-        "js",
-        "chat.js",
+  private async updateWebviewContextUsage(): Promise<void> {
+    if (!this._view) {
+      return;
+    }
+
+    const session = this.sessionManager.getActiveSession();
+    this.promptBuilder.setContextWindow(
+      await this.llmProvider.getModelContextWindow(
+        this.getSessionModel(session),
       ),
     );
-    const styleUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(
-        this._extensionUri,
-        "src",
-        "webview",
-        "css",
-        "chat.css",
+
+    this.sendToWebview({
+      type: "updateContextUsage",
+      usage: this.promptBuilder.measureContext(
+        session.messages,
+        this.slashCommands.getSystemPrompt(),
+        this.fileAttachmentManager.getStagedFiles(),
       ),
+    });
+  }
+
+  /**
+   * Generates HTML content for the webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const scriptUri = this.getResourceUri(
+      webview,
+      "out",
+      "webview",
+      "js",
+      "chat.js",
+    );
+    const styleUri = this.getResourceUri(
+      webview,
+      "src",
+      "webview",
+      "css",
+      "chat.css",
+    );
+    // Libraries used by the webview, served from the extension so the chat
+    // works offline and the CSP can stay limited to local sources
+    const jqueryUri = this.getResourceUri(
+      webview,
+      "node_modules",
+      "jquery",
+      "dist",
+      "jquery.min.js",
+    );
+    const markedUri = this.getResourceUri(
+      webview,
+      "node_modules",
+      "marked",
+      "lib",
+      "marked.umd.js",
+    );
+    const highlightUri = this.getResourceUri(
+      webview,
+      "node_modules",
+      "@highlightjs",
+      "cdn-assets",
+      "highlight.min.js",
+    );
+    // Languages from SupportedLanguage missing in the common build
+    const highlightDartUri = this.getResourceUri(
+      webview,
+      "node_modules",
+      "@highlightjs",
+      "cdn-assets",
+      "languages",
+      "dart.min.js",
     );
 
     const nonce = this.getNonce();
@@ -441,7 +1195,7 @@ ${fileReference.content}
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}' https://code.jquery.com;">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
     <link href="${styleUri}" rel="stylesheet">
     <title>AI Assistant Chat</title>
 </head>
@@ -449,8 +1203,21 @@ ${fileReference.content}
     <div class="chat-container">
         <!-- Header -->
         <div class="chat-header">
-            <h3>🤖 AI Assistant</h3>
-            <button id="clearChatBtn" class="clear-btn" title="Clear chat">🗑️</button>
+            <div class="chat-title">
+                <h3>🤖 AI Assistant</h3>
+                <span id="sessionTitle" class="session-title"></span>
+            </div>
+            <div class="header-actions">
+                <select id="modelSelect" class="model-select" title="Model used for this chat"></select>
+                <button id="refreshModelsBtn" class="refresh-models-btn" title="Refresh model list">⟳</button>
+                <button id="clearChatBtn" class="clear-btn" title="Clear chat">🗑️</button>
+            </div>
+        </div>
+
+        <!-- Connection Banner -->
+        <div id="connectionBanner" class="connection-banner" role="alert" hidden>
+            <span class="connection-banner-text"></span>
+            <button id="reconnectBtn" class="reconnect-btn" title="Check the connection now">Retry</button>
         </div>
 
         <!-- Staged Files Display -->
@@ -471,12 +1238,15 @@ ${fileReference.content}
                     <li>📎 Attach files by dragging them here or using the attach button</li>
                     <li>💬 Type your questions or requests</li>
                     <li>🎯 Get contextual help based on your code</li>
+                    <li>⌨️ Type <code>/</code> for commands like /explain, /fix and /tests</li>
+                    <li>🔗 Type <code>@</code> to attach files, the selection or the problems list</li>
                 </ul>
             </div>
         </div>
 
         <!-- Input Area -->
         <div class="input-container">
+            <div id="inputSuggestions" class="input-suggestions" role="listbox" hidden></div>
             <div class="input-actions">
                 <button id="attachBtn" class="attach-btn" title="Attach current file">📎</button>
             </div>
@@ -486,6 +1256,11 @@ ${fileReference.content}
                 rows="3"
             ></textarea>
             <button id="sendBtn" class="send-btn" title="Send message">Send</button>
+            <button id="stopBtn" class="stop-btn" title="Stop generating" style="display: none;">Stop</button>
+        </div>
+        <div id="contextMeter" class="context-meter" hidden>
+            <div class="context-meter-bar"><div class="context-meter-fill"></div></div>
+            <span class="context-meter-label"></span>
         </div>
 
         <!-- Drop Zone Overlay -->
@@ -498,11 +1273,27 @@ ${fileReference.content}
         </div>
     </div>
 
-    <script nonce="${nonce}" src="${scriptUri}"></script>
+    <script nonce="${nonce}" src="${jqueryUri}"></script>
+    <script nonce="${nonce}" src="${markedUri}"></script>
+    <script nonce="${nonce}" src="${highlightUri}"></script>
+    <script nonce="${nonce}" src="${highlightDartUri}"></script>
+    <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
   }
 
+  /**
+   * Gets the webview URI of a file shipped with the extension
+   */
+  private getResourceUri(
+    webview: vscode.Webview,
+    ...pathSegments: string[]
+  ): vscode.Uri {
+    return webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, ...pathSegments),
+    );
+  }
+
   /**
    * Generates a nonce for CSP
    */
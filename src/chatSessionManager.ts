@@ -0,0 +1,313 @@
+/**
+ * Chat Session Manager for AI Code Assistant VS Code Extension
+ *
+ * This module keeps track of the named chat sessions, which one is active,
+ * and saves them through ChatStorage whenever they change.
+ *
+ * @fileoverview Chat session management
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { ChatMessage, ChatSession, ModelStatsSummary } from "./types";
+import { ChatStorage } from "./chatStorage";
+import { ErrorUtils, StringUtils } from "./utils";
+
+/**
+ * Title given to sessions until one is generated
+ */
+export const DEFAULT_SESSION_TITLE = "New Chat";
+
+/**
+ * Maximum length of an automatically generated session title
+ */
+const MAX_TITLE_LENGTH = 50;
+
+/**
+ * Manages chat sessions and the currently active session
+ */
+export class ChatSessionManager {
+  private sessions: Map<string, ChatSession> = new Map();
+  private activeSessionId: string;
+
+  private readonly _onDidChangeSessions = new vscode.EventEmitter<void>();
+  readonly onDidChangeSessions: vscode.Event<void> =
+    this._onDidChangeSessions.event;
+
+  private readonly _onDidChangeActiveSession =
+    new vscode.EventEmitter<ChatSession>();
+  readonly onDidChangeActiveSession: vscode.Event<ChatSession> =
+    this._onDidChangeActiveSession.event;
+
+  constructor(private readonly storage: ChatStorage) {
+    const state = this.storage.loadSessions();
+    for (const session of state.sessions) {
+      this.sessions.set(session.id, session);
+    }
+
+    const restoredActive =
+      state.activeSessionId && this.sessions.has(state.activeSessionId)
+        ? state.activeSessionId
+        : this.getSessions()[0]?.id;
+
+    this.activeSessionId = restoredActive ?? this.addSession().id;
+  }
+
+  /**
+   * Gets all sessions, most recently updated first
+   */
+  getSessions(): ChatSession[] {
+    return Array.from(this.sessions.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  /**
+   * Gets a session by id
+   */
+  getSession(sessionId: string): ChatSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Gets the session shown in the chat view
+   */
+  getActiveSession(): ChatSession {
+    const session = this.sessions.get(this.activeSessionId);
+    if (session) {
+      return session;
+    }
+
+    // The active session was removed; fall back to the most recent one
+    const fallback = this.getSessions()[0] ?? this.addSession();
+    this.activeSessionId = fallback.id;
+    return fallback;
+  }
+
+  /**
+   * Checks whether a session is the active one
+   */
+  isActiveSession(sessionId: string): boolean {
+    return this.activeSessionId === sessionId;
+  }
+
+  /**
+   * Creates a new session and makes it active, keeping the current model.
+   * An empty active session is reused instead of piling up blank chats.
+   */
+  createSession(): ChatSession {
+    const active = this.getActiveSession();
+    if (active.messages.length === 0) {
+      return active;
+    }
+
+    const session = this.addSession();
+    session.model = active.model;
+    this.setActiveSession(session.id);
+    return session;
+  }
+
+  /**
+   * Switches the active session
+   */
+  setActiveSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error("Chat session not found");
+    }
+
+    // Drop the blank session being left so it does not linger in the history
+    const previous = this.sessions.get(this.activeSessionId);
+    if (previous && previous !== session && previous.messages.length === 0) {
+      this.sessions.delete(previous.id);
+    }
+
+    this.activeSessionId = sessionId;
+    this.save();
+    this._onDidChangeSessions.fire();
+    this._onDidChangeActiveSession.fire(session);
+  }
+
+  /**
+   * Renames a session
+   */
+  renameSession(sessionId: string, title: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || !title.trim()) {
+      return;
+    }
+
+    session.title = title.trim();
+    this.notifySessionChanged(session);
+  }
+
+  /**
+   * Deletes a session; deleting the active one switches to the next
+   */
+  deleteSession(sessionId: string): void {
+    if (!this.sessions.delete(sessionId)) {
+      return;
+    }
+
+    if (this.activeSessionId === sessionId) {
+      const next = this.getSessions()[0] ?? this.addSession();
+      this.setActiveSession(next.id);
+      return;
+    }
+
+    this.save();
+    this._onDidChangeSessions.fire();
+  }
+
+  /**
+   * Copies a session (including its messages) and makes the copy active
+   */
+  duplicateSession(sessionId: string): ChatSession | undefined {
+    const source = this.sessions.get(sessionId);
+    if (!source) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const copy: ChatSession = {
+      ...source,
+      id: StringUtils.generateId(),
+      title: `${source.title} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      messages: source.messages.map((message) => ({
+        ...message,
+        id: StringUtils.generateId(),
+      })),
+    };
+
+    this.sessions.set(copy.id, copy);
+    this.setActiveSession(copy.id);
+    return copy;
+  }
+
+  /**
+   * Replaces the messages of a session
+   */
+  setMessages(sessionId: string, messages: ChatMessage[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.messages = messages;
+    this.notifySessionChanged(session);
+  }
+
+  /**
+   * Records that a session's messages or metadata changed
+   */
+  notifySessionChanged(session: ChatSession): void {
+    session.updatedAt = new Date();
+    this.save();
+    this._onDidChangeSessions.fire();
+  }
+
+  /**
+   * Creates a title from the first user message of a session
+   */
+  static createTitle(text: string): string {
+    const firstLine = text.trim().split(/\r?\n/)[0].replace(/\s+/g, " ");
+    return (
+      StringUtils.truncate(firstLine, MAX_TITLE_LENGTH) || DEFAULT_SESSION_TITLE
+    );
+  }
+
+  /**
+   * Sums up the generation stats of a session's replies per model, so
+   * models and quantizations used in one chat can be compared
+   */
+  static summarizeStats(session: ChatSession): ModelStatsSummary[] {
+    const summaries = new Map<
+      string,
+      ModelStatsSummary & { speeds: number[]; loadDurations: number[] }
+    >();
+
+    session.messages.forEach(({ stats }) => {
+      if (!stats) {
+        return;
+      }
+
+      let summary = summaries.get(stats.model);
+      if (!summary) {
+        summary = {
+          model: stats.model,
+          replies: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          speeds: [],
+          loadDurations: [],
+        };
+        summaries.set(stats.model, summary);
+      }
+
+      summary.replies++;
+      summary.promptTokens += stats.promptTokens ?? 0;
+      summary.completionTokens += stats.completionTokens ?? 0;
+      if (stats.tokensPerSecond !== undefined) {
+        summary.speeds.push(stats.tokensPerSecond);
+      }
+      if (stats.loadDuration !== undefined) {
+        summary.loadDurations.push(stats.loadDuration);
+      }
+    });
+
+    const average = (values: number[]) =>
+      values.length
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : undefined;
+
+    return Array.from(summaries.values()).map(
+      ({ speeds, loadDurations, ...summary }) => ({
+        ...summary,
+        tokensPerSecond: average(speeds),
+        loadDuration: average(loadDurations),
+      }),
+    );
+  }
+
+  /**
+   * Creates an empty session without activating it
+   */
+  private addSession(): ChatSession {
+    const now = new Date();
+    const session: ChatSession = {
+      id: StringUtils.generateId(),
+      title: DEFAULT_SESSION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Persists all sessions except blank ones that are not in use
+   */
+  private save(): void {
+    const sessions = this.getSessions().filter(
+      (session) =>
+        session.messages.length > 0 || session.id === this.activeSessionId,
+    );
+    this.storage
+      .saveSessions(sessions, this.activeSessionId)
+      .catch((error) => {
+        ErrorUtils.logError("ChatSessionManager.save", error);
+      });
+  }
+
+  /**
+   * Disposes event emitters
+   */
+  dispose(): void {
+    this._onDidChangeSessions.dispose();
+    this._onDidChangeActiveSession.dispose();
+  }
+}
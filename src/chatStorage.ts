@@ -0,0 +1,258 @@
+/**
+ * Chat Storage for AI Code Assistant VS Code Extension
+ *
+ * This module persists chat sessions in the workspace state so they
+ * survive window reloads and VS Code restarts.
+ *
+ * @fileoverview Chat history persistence
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { ChatMessage, ChatSession, FileReference } from "./types";
+import { ErrorUtils, StringUtils } from "./utils";
+
+/**
+ * Workspace state key holding the serialized chat history
+ */
+const STORAGE_KEY = "aiAssistant.chatHistory";
+
+/**
+ * Current version of the stored data layout
+ * (1 = single conversation, 2 = named sessions)
+ */
+const STORAGE_VERSION = 2;
+
+/**
+ * Maximum characters of attachment content kept per stored file
+ */
+const MAX_STORED_ATTACHMENT_CHARS = 32 * 1024;
+
+/**
+ * Maximum size of one serialized session; oldest messages are dropped first
+ */
+const MAX_STORED_SESSION_CHARS = 1024 * 1024;
+
+/**
+ * Maximum number of sessions kept; least recently updated are dropped first
+ */
+const MAX_STORED_SESSIONS = 50;
+
+/**
+ * Chat message as stored in workspace state (dates as ISO strings)
+ */
+interface StoredChatMessage extends Omit<ChatMessage, "timestamp"> {
+  timestamp: string;
+  /** Single attachment written before messages supported several */
+  fileReference?: FileReference;
+}
+
+/**
+ * Chat session as stored in workspace state (dates as ISO strings)
+ */
+interface StoredChatSession
+  extends Omit<ChatSession, "createdAt" | "updatedAt" | "messages"> {
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredChatMessage[];
+}
+
+/**
+ * Versioned container for the stored history
+ */
+interface StoredChatHistory {
+  version: number;
+  activeSessionId?: string;
+  sessions?: StoredChatSession[];
+  /** Single conversation written by version 1 */
+  messages?: StoredChatMessage[];
+}
+
+/**
+ * Sessions restored from storage
+ */
+export interface ChatSessionState {
+  sessions: ChatSession[];
+  activeSessionId?: string;
+}
+
+/**
+ * Persists chat sessions in a VS Code memento
+ */
+export class ChatStorage {
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * Loads the stored chat sessions, upgrading older layouts
+   */
+  loadSessions(): ChatSessionState {
+    try {
+      const stored = this.state.get<StoredChatHistory>(STORAGE_KEY);
+      if (!stored) {
+        return { sessions: [] };
+      }
+
+      if (Array.isArray(stored.sessions)) {
+        return {
+          sessions: stored.sessions.map((session) =>
+            this.deserializeSession(session),
+          ),
+          activeSessionId: stored.activeSessionId,
+        };
+      }
+
+      if (Array.isArray(stored.messages) && stored.messages.length > 0) {
+        return { sessions: [this.migrateConversation(stored.messages)] };
+      }
+
+      return { sessions: [] };
+    } catch (error) {
+      ErrorUtils.logError("ChatStorage.loadSessions", error);
+      return { sessions: [] };
+    }
+  }
+
+  /**
+   * Saves the chat sessions, skipping in-progress (empty) messages
+   */
+  async saveSessions(
+    sessions: ChatSession[],
+    activeSessionId?: string,
+  ): Promise<void> {
+    const kept = [...sessions]
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, MAX_STORED_SESSIONS);
+
+    const history: StoredChatHistory = {
+      version: STORAGE_VERSION,
+      activeSessionId,
+      sessions: kept.map((session) => this.serializeSession(session)),
+    };
+
+    await this.state.update(STORAGE_KEY, history);
+  }
+
+  /**
+   * Removes the stored chat history
+   */
+  async clear(): Promise<void> {
+    await this.state.update(STORAGE_KEY, undefined);
+  }
+
+  /**
+   * Wraps a version 1 conversation in a session
+   */
+  private migrateConversation(messages: StoredChatMessage[]): ChatSession {
+    const restored = messages.map((message) =>
+      this.deserializeMessage(message),
+    );
+    const firstUserMessage = restored.find((m) => m.sender === "user");
+    const createdAt = restored[0]?.timestamp ?? new Date();
+
+    return {
+      id: StringUtils.generateId(),
+      title: firstUserMessage
+        ? StringUtils.truncate(firstUserMessage.content, 50)
+        : "Restored Chat",
+      createdAt,
+      updatedAt: restored[restored.length - 1]?.timestamp ?? createdAt,
+      messages: restored,
+    };
+  }
+
+  /**
+   * Converts a session into its storable form
+   */
+  private serializeSession(session: ChatSession): StoredChatSession {
+    const messages = session.messages
+      .filter((message) => message.content.trim().length > 0)
+      .map((message) => this.serializeMessage(message));
+
+    return {
+      ...session,
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+      messages: this.trimToSizeLimit(messages),
+    };
+  }
+
+  /**
+   * Restores a session from its stored form
+   */
+  private deserializeSession(session: StoredChatSession): ChatSession {
+    return {
+      ...session,
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt),
+      messages: (session.messages || []).map((message) =>
+        this.deserializeMessage(message),
+      ),
+    };
+  }
+
+  /**
+   * Converts a message into its storable form
+   */
+  private serializeMessage(message: ChatMessage): StoredChatMessage {
+    return {
+      ...message,
+      timestamp: new Date(message.timestamp).toISOString(),
+      fileReferences: message.fileReferences?.map((fileReference) =>
+        this.serializeFileReference(fileReference),
+      ),
+    };
+  }
+
+  /**
+   * Restores a message from its stored form
+   */
+  private deserializeMessage(message: StoredChatMessage): ChatMessage {
+    const { fileReference, ...rest } = message;
+    return {
+      ...rest,
+      timestamp: new Date(message.timestamp),
+      fileReferences:
+        message.fileReferences ?? (fileReference ? [fileReference] : undefined),
+    };
+  }
+
+  /**
+   * Caps attachment content so large files are not stored verbatim
+   */
+  private serializeFileReference(fileReference: FileReference): FileReference {
+    if (fileReference.content.length <= MAX_STORED_ATTACHMENT_CHARS) {
+      return fileReference;
+    }
+
+    return {
+      ...fileReference,
+      content: fileReference.content.substring(0, MAX_STORED_ATTACHMENT_CHARS),
+      truncated: true,
+    };
+  }
+
+  /**
+   * Drops the oldest messages until the session fits the size limit
+   */
+  private trimToSizeLimit(
+    messages: StoredChatMessage[],
+  ): StoredChatMessage[] {
+    const sizes = messages.map((message) => JSON.stringify(message).length);
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+    let start = 0;
+
+    while (total > MAX_STORED_SESSION_CHARS && start < messages.length - 1) {
+      total -= sizes[start];
+      start++;
+    }
+
+    if (start > 0) {
+      console.log(
+        `[ChatStorage] Dropped ${start} old message(s) to stay within the storage limit`,
+      );
+    }
+
+    return messages.slice(start);
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Code Block Actions for AI Code Assistant VS Code Extension
+ *
+ * This module applies code blocks from chat answers to the editor: copy,
+ * insert at cursor, replace selection, open in a new file, and apply to an
+ * attached file after reviewing a diff.
+ *
+ * @fileoverview Code block actions for chat answers
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { FileReference, LANGUAGE_EXTENSIONS } from "./types";
+import { CodeBlockAction } from "./webview/protocol";
+import { StringUtils } from "./utils";
+
+/**
+ * URI scheme of the read-only documents holding proposed file contents
+ */
+const PROPOSAL_SCHEME = "ai-assistant-proposal";
+
+/**
+ * Runs code block actions and serves proposed contents to the diff view
+ */
+export class CodeBlockActions
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  private proposals: Map<string, string> = new Map();
+  private registration: vscode.Disposable;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(
+      PROPOSAL_SCHEME,
+      this,
+    );
+  }
+
+  /**
+   * Provides the proposed content shown on the right side of the diff
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.toString()) ?? "";
+  }
+
+  /**
+   * Runs a code block action.
+   * Attachments of the conversation are the candidates for "Apply to File".
+   */
+  async run(
+    action: CodeBlockAction,
+    code: string,
+    language: string | undefined,
+    attachments: FileReference[],
+  ): Promise<void> {
+    switch (action) {
+      case "copy":
+        await vscode.env.clipboard.writeText(code);
+        vscode.window.setStatusBarMessage("$(check) Code copied", 2000);
+        break;
+
+      case "insert":
+        await this.insertAtCursor(code);
+        break;
+
+      case "replace":
+        await this.replaceSelection(code);
+        break;
+
+      case "newFile":
+        await this.openInNewFile(code, language);
+        break;
+
+      case "apply":
+        await this.applyToFile(code, attachments);
+        break;
+
+      default:
+        console.warn("[CodeBlockActions] Unknown action:", action);
+    }
+  }
+
+  /**
+   * Inserts the code at the cursor of the last active editor
+   */
+  private async insertAtCursor(code: string): Promise<void> {
+    const editor = this.getTargetEditor();
+    if (!editor) {
+      vscode.window.showWarningMessage("Open a file to insert the code into");
+      return;
+    }
+
+    await editor.edit((editBuilder) => {
+      editBuilder.insert(editor.selection.active, code);
+    });
+  }
+
+  /**
+   * Replaces the selection of the last active editor with the code
+   */
+  private async replaceSelection(code: string): Promise<void> {
+    const editor = this.getTargetEditor();
+    if (!editor || editor.selection.isEmpty) {
+      vscode.window.showWarningMessage("Select the code to replace first");
+      return;
+    }
+
+    await editor.edit((editBuilder) => {
+      editBuilder.replace(editor.selection, code);
+    });
+  }
+
+  /**
+   * Opens the code in a new untitled editor
+   */
+  private async openInNewFile(code: string, language?: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({
+      content: code,
+      language: await this.resolveLanguageId(language),
+    });
+    await vscode.window.showTextDocument(document);
+  }
+
+  /**
+   * Shows a diff between a file and the proposed content and writes the
+   * content only after the user confirms
+   */
+  private async applyToFile(
+    code: string,
+    attachments: FileReference[],
+  ): Promise<void> {
+    const target = await this.pickTargetFile(attachments);
+    if (!target) {
+      return;
+    }
+
+    const fileName = path.basename(target.fsPath);
+    const proposalUri = vscode.Uri.from({
+      scheme: PROPOSAL_SCHEME,
+      path: target.path,
+      query: StringUtils.generateId(),
+    });
+    this.proposals.set(proposalUri.toString(), code);
+
+    try {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        target,
+        proposalUri,
+        `${fileName} ↔ AI proposal`,
+      );
+
+      const choice = await vscode.window.showInformationMessage(
+        `Apply the proposed changes to ${fileName}?`,
+        "Apply",
+        "Discard",
+      );
+
+      if (choice !== "Apply") {
+        return;
+      }
+
+      const document = await vscode.workspace.openTextDocument(target);
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        target,
+        new vscode.Range(
+          document.positionAt(0),
+          document.positionAt(document.getText().length),
+        ),
+        code,
+      );
+
+      if (await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showInformationMessage(`Changes applied to ${fileName}`);
+      } else {
+        vscode.window.showErrorMessage(`Could not apply changes to ${fileName}`);
+      }
+    } finally {
+      this.proposals.delete(proposalUri.toString());
+    }
+  }
+
+  /**
+   * Chooses the file to apply to: the only attachment, a picked attachment,
+   * or the active editor's file when nothing was attached
+   */
+  private async pickTargetFile(
+    attachments: FileReference[],
+  ): Promise<vscode.Uri | undefined> {
+    const filePaths = Array.from(
+      new Set(attachments.map((file) => file.filePath)),
+    );
+
+    if (filePaths.length === 1) {
+      return vscode.Uri.file(filePaths[0]);
+    }
+
+    if (filePaths.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        filePaths.map((filePath) => ({
+          label: path.basename(filePath),
+          description: vscode.workspace.asRelativePath(filePath),
+          filePath,
+        })),
+        { placeHolder: "Select the file to apply the code to" },
+      );
+      return picked ? vscode.Uri.file(picked.filePath) : undefined;
+    }
+
+    const editor = this.getTargetEditor();
+    if (!editor || editor.document.isUntitled) {
+      vscode.window.showWarningMessage(
+        "Attach a file or open one in the editor to apply the code",
+      );
+      return undefined;
+    }
+    return editor.document.uri;
+  }
+
+  /**
+   * Gets the editor code should go to; the chat view itself has focus
+   * when a button is clicked, so fall back to any visible editor
+   */
+  private getTargetEditor(): vscode.TextEditor | undefined {
+    return (
+      vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0]
+    );
+  }
+
+  /**
+   * Maps a code fence language (e.g. "ts") to a VS Code language id
+   */
+  private async resolveLanguageId(language?: string): Promise<string> {
+    if (!language) {
+      return "plaintext";
+    }
+
+    const normalized = language.toLowerCase();
+    const fromExtension = LANGUAGE_EXTENSIONS[`.${normalized}`];
+    if (fromExtension) {
+      return fromExtension;
+    }
+
+    const knownLanguages = await vscode.languages.getLanguages();
+    return knownLanguages.includes(normalized) ? normalized : "plaintext";
+  }
+
+  /**
+   * Unregisters the proposal content provider
+   */
+  dispose(): void {
+    this.registration.dispose();
+    this.proposals.clear();
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Configuration access for AI Code Assistant VS Code Extension
+ *
+ * This module reads the user settings contributed under `aiAssistant.*`
+ * and maps them onto the service configuration types.
+ *
+ * @fileoverview User settings access
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import {
+  OllamaConfig,
+  OpenAICompatibleConfig,
+  FileProcessingConfig,
+  InlineCompletionConfig,
+  LLMProviderType,
+  DEFAULT_OLLAMA_CONFIG,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  DEFAULT_INLINE_COMPLETION_CONFIG,
+  DEFAULT_CONFIG,
+} from "./types";
+
+/**
+ * Root section of all extension settings
+ */
+export const CONFIGURATION_SECTION = "aiAssistant";
+
+/**
+ * Reads extension settings with defaults applied
+ */
+export class ExtensionConfiguration {
+  /**
+   * Gets the selected model provider backend
+   */
+  static getProviderType(): LLMProviderType {
+    return vscode.workspace
+      .getConfiguration(CONFIGURATION_SECTION)
+      .get<LLMProviderType>("provider", "ollama");
+  }
+
+  /**
+   * Gets the Ollama connection and sampling settings
+   */
+  static getOllamaConfig(): OllamaConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${CONFIGURATION_SECTION}.ollama`,
+    );
+
+    return {
+      baseUrl: config.get("baseUrl", DEFAULT_OLLAMA_CONFIG.baseUrl),
+      defaultModel: config.get(
+        "defaultModel",
+        DEFAULT_OLLAMA_CONFIG.defaultModel,
+      ),
+      timeout: config.get("timeout", DEFAULT_OLLAMA_CONFIG.timeout),
+      contextWindow: config.get(
+        "contextWindow",
+        DEFAULT_OLLAMA_CONFIG.contextWindow,
+      ),
+      temperature: config.get("temperature", DEFAULT_OLLAMA_CONFIG.temperature),
+      topP: config.get("topP", DEFAULT_OLLAMA_CONFIG.topP),
+      topK: config.get("topK", DEFAULT_OLLAMA_CONFIG.topK),
+      keepAlive: config.get("keepAlive", DEFAULT_OLLAMA_CONFIG.keepAlive),
+    };
+  }
+
+  /**
+   * Gets the OpenAI-compatible server settings
+   */
+  static getOpenAICompatibleConfig(): OpenAICompatibleConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${CONFIGURATION_SECTION}.openai`,
+    );
+    const defaults = DEFAULT_OPENAI_COMPATIBLE_CONFIG;
+
+    return {
+      baseUrl: config.get("baseUrl", defaults.baseUrl),
+      apiKey: config.get("apiKey", defaults.apiKey),
+      defaultModel: config.get("defaultModel", defaults.defaultModel),
+      timeout: config.get("timeout", defaults.timeout),
+      contextWindow: config.get("contextWindow", defaults.contextWindow),
+      temperature: config.get("temperature", defaults.temperature),
+      topP: config.get("topP", defaults.topP),
+    };
+  }
+
+  /**
+   * Gets the file attachment limits
+   */
+  static getFileProcessingConfig(): FileProcessingConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${CONFIGURATION_SECTION}.files`,
+    );
+
+    return {
+      ...DEFAULT_CONFIG,
+      maxFileSize: config.get("maxFileSize", DEFAULT_CONFIG.maxFileSize),
+      maxFilesPerFolder: config.get(
+        "maxFilesPerFolder",
+        DEFAULT_CONFIG.maxFilesPerFolder,
+      ),
+    };
+  }
+
+  /**
+   * Gets the inline completion settings
+   */
+  static getInlineCompletionConfig(): InlineCompletionConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${CONFIGURATION_SECTION}.inlineCompletions`,
+    );
+    const defaults = DEFAULT_INLINE_COMPLETION_CONFIG;
+
+    return {
+      enable: config.get("enable", defaults.enable),
+      debounceDelay: config.get("debounceDelay", defaults.debounceDelay),
+    };
+  }
+
+  /**
+   * Checks whether a configuration change touches the given subsection
+   */
+  static affects(
+    event: vscode.ConfigurationChangeEvent,
+    subsection: "provider" | "ollama" | "openai" | "files",
+  ): boolean {
+    return event.affectsConfiguration(`${CONFIGURATION_SECTION}.${subsection}`);
+  }
+}
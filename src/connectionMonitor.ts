@@ -0,0 +1,144 @@
+/**
+ * Connection Monitor for AI Code Assistant VS Code Extension
+ *
+ * This module checks the model server in the background: every half minute
+ * while it is reachable, and with exponential backoff once it is not, so the
+ * status bar and the chat notice outages and recoveries without a request.
+ *
+ * @fileoverview Background health checks of the model server
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { LLMProvider } from "./llmProvider";
+
+/**
+ * Command that checks the server right away, e.g. from the chat banner
+ */
+export const RECONNECT_COMMAND = "ai-assistant.reconnect";
+
+/** Delay between checks while the server is reachable */
+const HEALTHY_CHECK_INTERVAL = 30000;
+
+/** First retry delay after the server became unreachable */
+const MIN_RETRY_DELAY = 2000;
+
+/** Longest delay between retries while the server is unreachable */
+const MAX_RETRY_DELAY = 5 * 60000;
+
+/**
+ * Periodically checks that the model server is reachable
+ */
+export class ConnectionMonitor implements vscode.Disposable {
+  private timer: NodeJS.Timeout | undefined;
+  private retryDelay = MIN_RETRY_DELAY;
+  private nextCheckAt: Date | undefined;
+  private pendingCheck: Promise<boolean> | undefined;
+  private statusSubscription: vscode.Disposable;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires when a check starts or ends, or the provider status changes */
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  constructor(private readonly llmProvider: LLMProvider) {
+    // A failed request marks the server unreachable: retry soon instead
+    // of waiting for the next scheduled check
+    this.statusSubscription = this.llmProvider.onDidChangeStatus(() => {
+      const { connected } = this.llmProvider.getConnectionStatus();
+      if (!connected && !this.pendingCheck) {
+        this.retryDelay = MIN_RETRY_DELAY;
+        this.schedule(MIN_RETRY_DELAY);
+      }
+      this._onDidChange.fire();
+    });
+  }
+
+  /**
+   * Starts checking, beginning right away
+   */
+  start(): void {
+    this.checkNow();
+  }
+
+  /**
+   * Whether a check is in progress
+   */
+  isChecking(): boolean {
+    return !!this.pendingCheck;
+  }
+
+  /**
+   * Gets when the next scheduled check runs
+   */
+  getNextCheckTime(): Date | undefined {
+    return this.nextCheckAt;
+  }
+
+  /**
+   * Checks the server now and reschedules the following check.
+   * Calls made while a check is running share its result.
+   */
+  checkNow(): Promise<boolean> {
+    if (!this.pendingCheck) {
+      this.pendingCheck = this.check();
+      this._onDidChange.fire();
+    }
+    return this.pendingCheck;
+  }
+
+  /**
+   * Runs one check and schedules the next one
+   */
+  private async check(): Promise<boolean> {
+    this.clearTimer();
+
+    let connected = false;
+    try {
+      connected = await this.llmProvider.checkConnection();
+    } catch (error) {
+      console.warn("[ConnectionMonitor] Connection check failed:", error);
+    }
+
+    if (connected) {
+      this.retryDelay = MIN_RETRY_DELAY;
+      this.schedule(HEALTHY_CHECK_INTERVAL);
+    } else {
+      this.schedule(this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+    }
+
+    this.pendingCheck = undefined;
+    this._onDidChange.fire();
+    return connected;
+  }
+
+  /**
+   * Schedules the next check, replacing any scheduled one
+   */
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.nextCheckAt = new Date(Date.now() + delay);
+    this.timer = setTimeout(() => this.checkNow(), delay);
+  }
+
+  /**
+   * Cancels the scheduled check
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.nextCheckAt = undefined;
+  }
+
+  /**
+   * Stops checking
+   */
+  dispose(): void {
+    this.clearTimer();
+    this.statusSubscription.dispose();
+    this._onDidChange.dispose();
+  }
+}
@@ -2,16 +2,16 @@
  * Copilot-style input panel implementation
  */
 import * as vscode from "vscode";
-import { OllamaService } from "./ollamaService";
+import { LLMProvider } from "./llmProvider";
 import { FileManager } from "./fileManager";
-import { ErrorUtils } from "./utils";
+import { ErrorUtils, CancellationUtils } from "./utils";
 
 /**
  * Provides a GitHub Copilot-style input panel at the bottom of the editor
  */
 export class CopilotPanel {
   private panel: vscode.InputBox | undefined;
-  private ollamaService: OllamaService;
+  private llmProvider: LLMProvider;
   private fileManager: FileManager;
   private disposables: vscode.Disposable[] = [];
   private static instance: CopilotPanel | null = null;
@@ -20,17 +20,17 @@ export class CopilotPanel {
   private currentGhostText = "";
   private originalPosition: vscode.Position | undefined;
 
-  private constructor(ollamaService: OllamaService, fileManager: FileManager) {
-    this.ollamaService = ollamaService;
+  private constructor(llmProvider: LLMProvider, fileManager: FileManager) {
+    this.llmProvider = llmProvider;
     this.fileManager = fileManager;
   }
 
   public static getInstance(
-    ollamaService: OllamaService,
+    llmProvider: LLMProvider,
     fileManager: FileManager,
   ): CopilotPanel {
     if (!CopilotPanel.instance) {
-      CopilotPanel.instance = new CopilotPanel(ollamaService, fileManager);
+      CopilotPanel.instance = new CopilotPanel(llmProvider, fileManager);
     }
     return CopilotPanel.instance;
   }
@@ -74,9 +74,12 @@ export class CopilotPanel {
           this.fileManager.createFileReferenceFromDocument(document);
 
         // Call LLM service with the query and context
-        const response = await this.ollamaService.getCompletion(query, [
-          fileReference,
-        ]);
+        const response = await this.llmProvider.getCompletion(
+          query,
+          [fileReference],
+          undefined,
+          { priority: "inline" },
+        );
 
         // Insert the response as a comment in the editor
         if (response && editor.selection) {
@@ -326,9 +329,26 @@ export class CopilotPanel {
         const enhancedQuery = `Context: ${document.languageId} file\nSurrounding code:\n\`\`\`\n${contextCode}\n\`\`\`\n\nUser request: ${query}\n\nPlease provide a helpful response. If suggesting code, provide only the code that should be inserted at line ${this.originalPosition.line + 1}.`;
 
         // Call LLM service with enhanced context
-        const response = await this.ollamaService.getCompletion(enhancedQuery, [
-          fileReference,
-        ]);
+        const response = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "AI Assistant is thinking...",
+            cancellable: true,
+          },
+          async (_progress, token) => {
+            const cancellation = CancellationUtils.linkAbortSignal(token);
+            try {
+              return await this.llmProvider.getCompletion(
+                enhancedQuery,
+                [fileReference],
+                undefined,
+                { signal: cancellation.signal, priority: "inline" },
+              );
+            } finally {
+              cancellation.dispose();
+            }
+          },
+        );
 
         if (response) {
           // Check if response contains code blocks
@@ -347,6 +367,10 @@ export class CopilotPanel {
         }
       }
     } catch (error) {
+      if (CancellationUtils.isCancellation(error)) {
+        vscode.window.showInformationMessage("AI request cancelled");
+        return;
+      }
       ErrorUtils.logError("CopilotPanel.submitGhostInput", error);
       vscode.window.showErrorMessage(ErrorUtils.createUserFriendlyError(error));
     } finally {
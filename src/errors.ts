@@ -0,0 +1,101 @@
+/**
+ * Model Provider Errors for AI Code Assistant VS Code Extension
+ *
+ * This module defines the errors model providers throw for failed requests,
+ * so callers can tell a stopped server from a missing model or a prompt
+ * that does not fit, and retry only the failures that may pass next time.
+ *
+ * @fileoverview Typed model provider errors
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+/**
+ * Base class of the errors thrown for failed model requests
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    /** Whether sending the same request again may succeed */
+    readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The model server refused the connection (not running or wrong URL).
+ * Not retried: the connection monitor notices when the server is back.
+ */
+export class ConnectionRefusedError extends LLMError {
+  constructor(
+    readonly serverName: string,
+    readonly url: string,
+  ) {
+    super(
+      `Cannot connect to the ${serverName} server at ${url}. Make sure it is running.`,
+    );
+  }
+}
+
+/**
+ * The requested model is not installed on the server
+ */
+export class ModelNotFoundError extends LLMError {
+  constructor(
+    readonly model: string,
+    availableModels: string[],
+  ) {
+    super(
+      availableModels.length > 0
+        ? `Model "${model}" not found. Available models: ${availableModels.join(", ")}`
+        : `Model "${model}" not found. No models are installed on the server.`,
+    );
+  }
+}
+
+/**
+ * The server did not answer within the request timeout
+ */
+export class TimeoutError extends LLMError {
+  constructor() {
+    super(
+      "The request timed out. The server may be busy or still loading the model.",
+    );
+  }
+}
+
+/**
+ * The prompt does not fit in the model's context window
+ */
+export class ContextOverflowError extends LLMError {
+  constructor(serverMessage: string) {
+    super(
+      `The conversation is too long for the model's context window (${serverMessage}). Start a new chat or attach less code.`,
+    );
+  }
+
+  /**
+   * Checks whether a server error message says the prompt is too long
+   */
+  static matches(serverMessage: string): boolean {
+    return /context (length|size|window)|exceeds? .*context/i.test(
+      serverMessage,
+    );
+  }
+}
+
+/**
+ * The server answered with an error. Overloaded servers and models that
+ * are still loading answer with a status worth retrying.
+ */
+export class ServerError extends LLMError {
+  constructor(
+    message: string,
+    readonly status?: number,
+    retryable: boolean = false,
+  ) {
+    super(message, retryable);
+  }
+}
@@ -14,15 +14,28 @@
 
 import * as vscode from "vscode";
 import { ChatProvider } from "./chatProvider";
-import { DropZoneProvider, FileTreeDataProvider } from "./providers";
+import { ChatStorage } from "./chatStorage";
+import { ChatSessionManager } from "./chatSessionManager";
+import { CodeBlockActions } from "./codeBlockActions";
+import { ConnectionMonitor, RECONNECT_COMMAND } from "./connectionMonitor";
+import { FIX_PROBLEM_COMMAND, ProblemCodeActions } from "./problemCodeActions";
+import {
+  ChatTreeDataProvider,
+  DropZoneProvider,
+  FileTreeDataProvider,
+  ModelTreeDataProvider,
+} from "./providers";
 import { FileManager, FileAttachmentManager } from "./fileManager";
+import { GitService } from "./gitService";
+import { LLMProvider } from "./llmProvider";
+import { ModelManager } from "./modelManager";
 import { OllamaService } from "./ollamaService";
-import {
-  InlineChatProvider,
-  registerInlineCompletions,
-} from "./inlineChatProvider";
+import { OpenAICompatibleService } from "./openAICompatibleService";
+import { InlineChatProvider } from "./inlineChatProvider";
+import { registerInlineCompletions } from "./inlineCompletionProvider";
+import { ChatItem, ModelItem } from "./types";
 import { ErrorUtils } from "./utils";
-import { DEFAULT_CONFIG } from "./types";
+import { ExtensionConfiguration } from "./configuration";
 import { CopilotPanel } from "./copilotPanel";
 
 /**
@@ -34,24 +47,41 @@ export function activate(context: vscode.ExtensionContext) {
 
   try {
     // Initialize services
-    const fileManager = new FileManager(DEFAULT_CONFIG);
+    const fileManager = new FileManager(
+      ExtensionConfiguration.getFileProcessingConfig(),
+    );
     const fileAttachmentManager = new FileAttachmentManager();
-    const ollamaService = new OllamaService();
+    const llmProvider = createLLMProvider();
+    const connectionMonitor = new ConnectionMonitor(llmProvider);
+    context.subscriptions.push(connectionMonitor);
+
+    const sessionManager = new ChatSessionManager(
+      new ChatStorage(context.workspaceState),
+    );
+    context.subscriptions.push(sessionManager);
+
+    const codeBlockActions = new CodeBlockActions();
+    context.subscriptions.push(codeBlockActions);
+    context.subscriptions.push(new ProblemCodeActions());
 
     // Initialize core providers
     const chatProvider = new ChatProvider(
       context.extensionUri,
       fileManager,
       fileAttachmentManager,
-      ollamaService,
+      llmProvider,
+      sessionManager,
+      codeBlockActions,
     );
 
     const inlineChatProvider = InlineChatProvider.getInstance(
-      ollamaService,
+      llmProvider,
     );
 
+    const gitService = new GitService(llmProvider);
+
     // Initialize Copilot-style panel
-    const copilotPanel = CopilotPanel.getInstance(ollamaService, fileManager);
+    const copilotPanel = CopilotPanel.getInstance(llmProvider, fileManager);
 
     const dropZoneProvider = new DropZoneProvider(async (uri: vscode.Uri) => {
       try {
@@ -66,6 +96,7 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     const fileTreeDataProvider = new FileTreeDataProvider();
+    const chatTreeDataProvider = new ChatTreeDataProvider(sessionManager);
 
     // Register providers
     registerProviders(
@@ -73,6 +104,7 @@ export function activate(context: vscode.ExtensionContext) {
       chatProvider,
       dropZoneProvider,
       fileTreeDataProvider,
+      chatTreeDataProvider,
     );
 
     // Register commands
@@ -82,19 +114,47 @@ export function activate(context: vscode.ExtensionContext) {
       fileManager,
       fileAttachmentManager,
       inlineChatProvider,
+      sessionManager,
+      gitService,
     );
 
+    // Register chat session commands
+    registerSessionCommands(context, sessionManager);
+
+    // Model management is only available with the Ollama provider
+    if (llmProvider instanceof OllamaService) {
+      registerModelManagement(context, llmProvider, chatProvider);
+    }
+
     // Register Copilot panel commands
     CopilotPanel.registerCommands(context, copilotPanel);
 
     // Register inline completions
-    registerInlineCompletions(context, ollamaService);
+    registerInlineCompletions(context, llmProvider);
 
     // Set up event listeners
-    setupEventListeners(context, fileTreeDataProvider);
+    setupEventListeners(
+      context,
+      fileTreeDataProvider,
+      fileManager,
+      llmProvider,
+    );
 
-    // Create status bar item
-    createStatusBarItem(context);
+    // Register connection commands and the status bar item
+    registerConnectionCommands(
+      context,
+      connectionMonitor,
+      chatProvider,
+      llmProvider,
+    );
+    createStatusBarItem(
+      context,
+      connectionMonitor,
+      chatProvider,
+      llmProvider,
+      sessionManager,
+    );
+    connectionMonitor.start();
 
     console.log("[Extension] AI Code Assistant activated successfully!");
   } catch (error) {
@@ -105,6 +165,38 @@ export function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Creates the model provider selected in the settings
+ */
+function createLLMProvider(): LLMProvider {
+  const providerType = ExtensionConfiguration.getProviderType();
+  console.log(`[Extension] Using model provider: ${providerType}`);
+
+  switch (providerType) {
+    case "openai":
+      return new OpenAICompatibleService(
+        ExtensionConfiguration.getOpenAICompatibleConfig(),
+      );
+    case "ollama":
+    default:
+      return new OllamaService(ExtensionConfiguration.getOllamaConfig());
+  }
+}
+
+/**
+ * Offers a window reload so a newly selected model provider takes effect
+ */
+async function promptReloadForProviderChange(): Promise<void> {
+  const choice = await vscode.window.showInformationMessage(
+    "The AI model provider changed. Reload the window to switch providers.",
+    "Reload Window",
+  );
+
+  if (choice === "Reload Window") {
+    vscode.commands.executeCommand("workbench.action.reloadWindow");
+  }
+}
+
 /**
  * Registers all extension providers
  */
@@ -113,6 +205,7 @@ function registerProviders(
   chatProvider: ChatProvider,
   dropZoneProvider: DropZoneProvider,
   fileTreeDataProvider: FileTreeDataProvider,
+  chatTreeDataProvider: ChatTreeDataProvider,
 ): void {
   // Register webview provider
   const webviewProvider = vscode.window.registerWebviewViewProvider(
@@ -138,7 +231,17 @@ function registerProviders(
     canSelectMany: true,
   });
 
-  context.subscriptions.push(webviewProvider, dropZoneTreeView, fileTreeView);
+  // Register chat history tree view
+  const historyTreeView = vscode.window.createTreeView("aiAssistantHistory", {
+    treeDataProvider: chatTreeDataProvider,
+  });
+
+  context.subscriptions.push(
+    webviewProvider,
+    dropZoneTreeView,
+    fileTreeView,
+    historyTreeView,
+  );
   console.log("[Extension] Providers registered successfully");
 }
 
@@ -151,6 +254,8 @@ function registerCommands(
   fileManager: FileManager,
   fileAttachmentManager: FileAttachmentManager,
   inlineChatProvider: InlineChatProvider,
+  sessionManager: ChatSessionManager,
+  gitService: GitService,
 ): void {
   const commands = [
     // Basic chat commands
@@ -159,7 +264,8 @@ function registerCommands(
     }),
 
     vscode.commands.registerCommand("ai-assistant.newChat", () => {
-      chatProvider.clearMessages();
+      chatProvider.stopGeneration();
+      sessionManager.createSession();
       fileAttachmentManager.clearStagedFiles();
       vscode.window.showInformationMessage("New chat started");
     }),
@@ -179,6 +285,50 @@ function registerCommands(
       },
     ),
 
+    // Diagnostics commands
+    vscode.commands.registerCommand("ai-assistant.attachProblems", async () => {
+      await handleAttachProblems(fileManager, chatProvider);
+    }),
+
+    vscode.commands.registerCommand(
+      FIX_PROBLEM_COMMAND,
+      async (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+        await handleFixProblem(uri, diagnostic, fileManager, chatProvider);
+      },
+    ),
+
+    // Git commands; from the Source Control view they get its SourceControl
+    vscode.commands.registerCommand(
+      "ai-assistant.attachStagedChanges",
+      async (sourceControl?: vscode.SourceControl) => {
+        await handleAttachChanges(
+          true,
+          sourceControl?.rootUri,
+          gitService,
+          chatProvider,
+        );
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.attachUnstagedChanges",
+      async (sourceControl?: vscode.SourceControl) => {
+        await handleAttachChanges(
+          false,
+          sourceControl?.rootUri,
+          gitService,
+          chatProvider,
+        );
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.generateCommitMessage",
+      async (sourceControl?: vscode.SourceControl) => {
+        await handleGenerateCommitMessage(sourceControl?.rootUri, gitService);
+      },
+    ),
+
     // Multiple file attachment command (supports single files too)
     vscode.commands.registerCommand(
       "ai-assistant.attachMultipleFiles",
@@ -228,6 +378,213 @@ function registerCommands(
   console.log("[Extension] Commands registered successfully");
 }
 
+/**
+ * Registers commands for switching and managing chat sessions
+ */
+function registerSessionCommands(
+  context: vscode.ExtensionContext,
+  sessionManager: ChatSessionManager,
+): void {
+  // Tree items pass a ChatItem, the tree's click handler passes an id and
+  // the command palette passes nothing (meaning the active session)
+  const resolveSessionId = (target?: ChatItem | string): string =>
+    typeof target === "string"
+      ? target
+      : (target?.session?.id ?? sessionManager.getActiveSession().id);
+
+  const commands = [
+    vscode.commands.registerCommand(
+      "ai-assistant.openSession",
+      (target?: ChatItem | string) => {
+        sessionManager.setActiveSession(resolveSessionId(target));
+        vscode.commands.executeCommand(`${ChatProvider.viewType}.focus`);
+      },
+    ),
+
+    vscode.commands.registerCommand("ai-assistant.switchSession", async () => {
+      const picked = await vscode.window.showQuickPick(
+        sessionManager.getSessions().map((session) => ({
+          label: session.title,
+          description: sessionManager.isActiveSession(session.id)
+            ? "Active"
+            : undefined,
+          detail: `${session.messages.length} message(s) · updated ${session.updatedAt.toLocaleString()}`,
+          sessionId: session.id,
+        })),
+        { placeHolder: "Select a chat session" },
+      );
+
+      if (picked) {
+        sessionManager.setActiveSession(picked.sessionId);
+      }
+    }),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.renameSession",
+      async (target?: ChatItem | string) => {
+        const session = sessionManager.getSession(resolveSessionId(target));
+        if (!session) return;
+
+        const title = await vscode.window.showInputBox({
+          prompt: "Chat session title",
+          value: session.title,
+          validateInput: (value) =>
+            value.trim() ? undefined : "Title cannot be empty",
+        });
+
+        if (title) {
+          sessionManager.renameSession(session.id, title);
+        }
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.deleteSession",
+      async (target?: ChatItem | string) => {
+        const session = sessionManager.getSession(resolveSessionId(target));
+        if (!session) return;
+
+        const confirmed = await vscode.window.showWarningMessage(
+          `Delete chat "${session.title}"?`,
+          { modal: true },
+          "Delete",
+        );
+
+        if (confirmed === "Delete") {
+          sessionManager.deleteSession(session.id);
+        }
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.duplicateSession",
+      (target?: ChatItem | string) => {
+        sessionManager.duplicateSession(resolveSessionId(target));
+      },
+    ),
+  ];
+
+  context.subscriptions.push(...commands);
+}
+
+/**
+ * Registers the Models view and the commands managing Ollama models
+ */
+function registerModelManagement(
+  context: vscode.ExtensionContext,
+  ollamaService: OllamaService,
+  chatProvider: ChatProvider,
+): void {
+  const modelManager = new ModelManager(ollamaService);
+  const modelTreeDataProvider = new ModelTreeDataProvider(modelManager);
+  const modelsTreeView = vscode.window.createTreeView("aiAssistantModels", {
+    treeDataProvider: modelTreeDataProvider,
+  });
+
+  // Keep the chat's model picker in step with the installed models
+  modelManager.onDidChangeModels(() => chatProvider.refreshModels());
+
+  // Tree items pass a ModelItem; the command palette passes nothing, so
+  // the user picks one of the installed models
+  const resolveModel = async (
+    target?: ModelItem,
+  ): Promise<string | undefined> => {
+    if (target) {
+      return target.name;
+    }
+
+    const models = await modelManager.getModels();
+    if (models.length === 0) {
+      vscode.window.showInformationMessage("No models are installed");
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      models.map((model) => ({
+        label: model.name,
+        description: [model.parameterSize, model.quantization]
+          .filter(Boolean)
+          .join(" · "),
+      })),
+      { placeHolder: "Select a model" },
+    );
+    return picked?.label;
+  };
+
+  // Runs a model action, reporting failures
+  const runModelAction = async (
+    action: (model: string) => Promise<void>,
+    failure: string,
+    target?: ModelItem,
+  ) => {
+    const model = await resolveModel(target);
+    if (!model) return;
+
+    try {
+      await action(model);
+    } catch (error) {
+      ErrorUtils.logError("Extension.modelAction", error);
+      vscode.window.showErrorMessage(
+        `${failure} ${model}: ${ErrorUtils.createUserFriendlyError(error)}`,
+      );
+    }
+  };
+
+  const commands = [
+    vscode.commands.registerCommand("ai-assistant.refreshModels", () =>
+      modelTreeDataProvider.refresh(),
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.pullModel",
+      async (model?: string) => {
+        try {
+          await modelManager.pullModel(
+            typeof model === "string" ? model : undefined,
+          );
+        } catch (error) {
+          ErrorUtils.logError("Extension.pullModel", error);
+          vscode.window.showErrorMessage(
+            `Failed to pull the model: ${ErrorUtils.createUserFriendlyError(error)}`,
+          );
+        }
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.showModel",
+      (target?: ModelItem) =>
+        runModelAction(
+          (model) => modelManager.showModel(model),
+          "Failed to show",
+          target,
+        ),
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.warmModel",
+      (target?: ModelItem) =>
+        runModelAction(
+          (model) => modelManager.warmModel(model),
+          "Failed to load",
+          target,
+        ),
+    ),
+
+    vscode.commands.registerCommand(
+      "ai-assistant.deleteModel",
+      (target?: ModelItem) =>
+        runModelAction(
+          (model) => modelManager.deleteModel(model),
+          "Failed to delete",
+          target,
+        ),
+    ),
+  ];
+
+  context.subscriptions.push(modelManager, modelsTreeView, ...commands);
+}
+
 /**
  * Handles attaching the active file
  */
@@ -284,6 +641,88 @@ async function handleAttachSelectedText(
   }
 }
 
+/**
+ * Handles attaching the workspace errors and warnings with their code
+ */
+async function handleAttachProblems(
+  fileManager: FileManager,
+  chatProvider: ChatProvider,
+): Promise<void> {
+  try {
+    const problems = await fileManager.createProblemsReference(
+      FileManager.getErrorsAndWarnings(),
+    );
+    chatProvider.attachFiles([problems]);
+  } catch (error) {
+    ErrorUtils.logError("Extension.handleAttachProblems", error);
+    vscode.window.showWarningMessage(ErrorUtils.createUserFriendlyError(error));
+  }
+}
+
+/**
+ * Handles the "Ask AI to fix" quick fix: asks the chat to fix one problem,
+ * sending the problem with the code around it and the whole file
+ */
+async function handleFixProblem(
+  uri: vscode.Uri,
+  diagnostic: vscode.Diagnostic,
+  fileManager: FileManager,
+  chatProvider: ChatProvider,
+): Promise<void> {
+  try {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const problem = await fileManager.createProblemsReference(
+      [[uri, [diagnostic]]],
+      5,
+    );
+    const file = fileManager.createFileReferenceFromDocument(document);
+
+    await vscode.commands.executeCommand("ai-assistant.openChat");
+    await chatProvider.sendMessage(`/fix ${diagnostic.message}`, [
+      problem,
+      file,
+    ]);
+  } catch (error) {
+    ErrorUtils.logError("Extension.handleFixProblem", error);
+    vscode.window.showErrorMessage(ErrorUtils.createUserFriendlyError(error));
+  }
+}
+
+/**
+ * Handles attaching the staged or unstaged changes of a repository as a diff
+ */
+async function handleAttachChanges(
+  staged: boolean,
+  rootUri: vscode.Uri | undefined,
+  gitService: GitService,
+  chatProvider: ChatProvider,
+): Promise<void> {
+  try {
+    const diff = await gitService.createDiffReference(staged, rootUri);
+    chatProvider.attachFiles([diff]);
+  } catch (error) {
+    ErrorUtils.logError("Extension.handleAttachChanges", error);
+    vscode.window.showWarningMessage(ErrorUtils.createUserFriendlyError(error));
+  }
+}
+
+/**
+ * Handles writing a commit message into the Source Control input box
+ */
+async function handleGenerateCommitMessage(
+  rootUri: vscode.Uri | undefined,
+  gitService: GitService,
+): Promise<void> {
+  try {
+    await gitService.generateCommitMessage(rootUri);
+  } catch (error) {
+    ErrorUtils.logError("Extension.handleGenerateCommitMessage", error);
+    vscode.window.showErrorMessage(
+      `Failed to generate a commit message: ${ErrorUtils.createUserFriendlyError(error)}`,
+    );
+  }
+}
+
 /**
  * Handles attaching a file from a specific path
  */
@@ -362,6 +801,8 @@ async function handleMultipleFileAttachment(
 function setupEventListeners(
   context: vscode.ExtensionContext,
   fileTreeDataProvider: FileTreeDataProvider,
+  fileManager: FileManager,
+  llmProvider: LLMProvider,
 ): void {
   // Listen for active editor changes
   const activeEditorChangeListener = vscode.window.onDidChangeActiveTextEditor(
@@ -385,24 +826,237 @@ function setupEventListeners(
     // Future enhancement: Could auto-suggest file attachment
   });
 
-  context.subscriptions.push(activeEditorChangeListener, fileWatcher);
+  // Apply settings changes without requiring a reload
+  const configurationChangeListener = vscode.workspace.onDidChangeConfiguration(
+    (event) => {
+      if (ExtensionConfiguration.affects(event, "provider")) {
+        promptReloadForProviderChange();
+      }
+
+      if (
+        llmProvider instanceof OllamaService &&
+        ExtensionConfiguration.affects(event, "ollama")
+      ) {
+        console.log("[Extension] Ollama settings changed");
+        llmProvider.updateConfig(ExtensionConfiguration.getOllamaConfig());
+      }
+
+      if (
+        llmProvider instanceof OpenAICompatibleService &&
+        ExtensionConfiguration.affects(event, "openai")
+      ) {
+        console.log("[Extension] OpenAI-compatible settings changed");
+        llmProvider.updateConfig(
+          ExtensionConfiguration.getOpenAICompatibleConfig(),
+        );
+      }
+
+      if (ExtensionConfiguration.affects(event, "files")) {
+        console.log("[Extension] File settings changed");
+        fileManager.updateConfig(
+          ExtensionConfiguration.getFileProcessingConfig(),
+        );
+      }
+    },
+  );
+
+  context.subscriptions.push(
+    activeEditorChangeListener,
+    fileWatcher,
+    configurationChangeListener,
+  );
   console.log("[Extension] Event listeners set up successfully");
 }
 
 /**
- * Creates and configures the status bar item
+ * Registers the commands behind the connection status bar item
+ */
+function registerConnectionCommands(
+  context: vscode.ExtensionContext,
+  connectionMonitor: ConnectionMonitor,
+  chatProvider: ChatProvider,
+  llmProvider: LLMProvider,
+): void {
+  const commands = [
+    vscode.commands.registerCommand(RECONNECT_COMMAND, async () => {
+      const connected = await connectionMonitor.checkNow();
+      const { url } = llmProvider.getConnectionStatus();
+
+      if (connected) {
+        await chatProvider.refreshModels();
+        vscode.window.showInformationMessage(
+          `Connected to ${llmProvider.displayName} at ${url}`,
+        );
+      } else {
+        vscode.window.showWarningMessage(
+          `Cannot reach the ${llmProvider.displayName} server at ${url}`,
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand("ai-assistant.switchModel", async () => {
+      const models = await llmProvider.listModels();
+      if (models.length === 0) {
+        vscode.window.showWarningMessage(
+          `No models are available on the ${llmProvider.displayName} server`,
+        );
+        return;
+      }
+
+      const selectedModel = chatProvider.getSelectedModel();
+      const picked = await vscode.window.showQuickPick(
+        models.map((model) => ({
+          label: model.name,
+          description: model.name === selectedModel ? "Current" : undefined,
+          detail: [model.family, model.parameterSize, model.quantization]
+            .filter(Boolean)
+            .join(" · "),
+        })),
+        { placeHolder: "Select the model for this chat" },
+      );
+
+      if (picked) {
+        chatProvider.selectModel(picked.label);
+      }
+    }),
+
+    vscode.commands.registerCommand("ai-assistant.showServerHelp", async () => {
+      const { url } = llmProvider.getConnectionStatus();
+      const isOllama = llmProvider instanceof OllamaService;
+      const actions = isOllama
+        ? ["Download Ollama", "Open Settings"]
+        : ["Open Settings"];
+
+      const picked = await vscode.window.showInformationMessage(
+        `Cannot reach the ${llmProvider.displayName} server at ${url}`,
+        {
+          modal: true,
+          detail: isOllama
+            ? "Start Ollama with `ollama serve` (or open the Ollama app), then retry. If it runs on another machine or port, update the server URL in the settings."
+            : "Start the server, then retry. If it runs on another machine or port, update the server URL in the settings.",
+        },
+        ...actions,
+      );
+
+      if (picked === "Download Ollama") {
+        vscode.env.openExternal(
+          vscode.Uri.parse("https://ollama.com/download"),
+        );
+      } else if (picked === "Open Settings") {
+        vscode.commands.executeCommand(
+          "workbench.action.openSettings",
+          `@ext:${context.extension.id}`,
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand("ai-assistant.showStatusMenu", async () => {
+      const actions: (vscode.QuickPickItem & {
+        command: string;
+        args?: unknown[];
+      })[] = [
+        {
+          label: "$(refresh) Reconnect",
+          detail: "Check the connection to the model server now",
+          command: RECONNECT_COMMAND,
+        },
+        {
+          label: "$(symbol-class) Switch Model...",
+          detail: `Current: ${chatProvider.getSelectedModel()}`,
+          command: "ai-assistant.switchModel",
+        },
+        {
+          label: "$(comment-discussion) Open Chat",
+          command: "ai-assistant.openChat",
+        },
+        {
+          label: "$(gear) Open Settings",
+          command: "workbench.action.openSettings",
+          args: [`@ext:${context.extension.id}`],
+        },
+      ];
+
+      const picked = await vscode.window.showQuickPick(actions, {
+        placeHolder: "AI Assistant",
+      });
+      if (picked) {
+        vscode.commands.executeCommand(picked.command, ...(picked.args ?? []));
+      }
+    }),
+  ];
+
+  context.subscriptions.push(...commands);
+}
+
+/**
+ * Creates the status bar item showing the connection state and the model
+ * of the active chat
  */
-function createStatusBarItem(context: vscode.ExtensionContext): void {
+function createStatusBarItem(
+  context: vscode.ExtensionContext,
+  connectionMonitor: ConnectionMonitor,
+  chatProvider: ChatProvider,
+  llmProvider: LLMProvider,
+  sessionManager: ChatSessionManager,
+): void {
   const statusBarItem = vscode.window.createStatusBarItem(
     vscode.StatusBarAlignment.Right,
     100,
   );
-  statusBarItem.text = "$(robot) AI Assistant";
-  statusBarItem.tooltip = "Open AI Assistant Chat";
-  statusBarItem.command = "ai-assistant.openChat";
+  statusBarItem.command = "ai-assistant.showStatusMenu";
+
+  const update = () => {
+    const status = llmProvider.getConnectionStatus();
+    const model = chatProvider.getSelectedModel();
+    const server = `${llmProvider.displayName} at ${status.url}`;
+
+    // Requests waiting for the server are counted next to the model
+    const queue = llmProvider.getQueueStatus();
+    const queueText =
+      queue.queued > 0 ? ` $(list-ordered) ${queue.queued}` : "";
+    const queueTooltip =
+      queue.running + queue.queued > 0
+        ? `\nRequests: ${queue.running} running, ${queue.queued} queued`
+        : "";
+
+    if (status.connected && status.loadingModel) {
+      statusBarItem.text = `$(loading~spin) ${status.loadingModel}${queueText}`;
+      statusBarItem.tooltip = `Waiting for ${status.loadingModel} to load and start answering${queueTooltip}`;
+      statusBarItem.backgroundColor = undefined;
+    } else if (status.connected) {
+      statusBarItem.text = `$(robot) ${model}${queueText}`;
+      statusBarItem.tooltip = `Connected to ${server}\nModel: ${model}${queueTooltip}`;
+      statusBarItem.backgroundColor = undefined;
+    } else if (connectionMonitor.isChecking()) {
+      statusBarItem.text = "$(sync~spin) AI Assistant";
+      statusBarItem.tooltip = `Connecting to ${server}...`;
+    } else {
+      const nextCheck = connectionMonitor.getNextCheckTime();
+      statusBarItem.text = "$(debug-disconnect) AI Assistant";
+      statusBarItem.tooltip = [
+        `Cannot reach ${server}`,
+        nextCheck
+          ? `Next check at ${nextCheck.toLocaleTimeString()}`
+          : undefined,
+      ]
+        .filter(Boolean)
+        .join("\n");
+      statusBarItem.backgroundColor = new vscode.ThemeColor(
+        "statusBarItem.warningBackground",
+      );
+    }
+  };
+
+  update();
   statusBarItem.show();
 
-  context.subscriptions.push(statusBarItem);
+  context.subscriptions.push(
+    statusBarItem,
+    connectionMonitor.onDidChange(update),
+    llmProvider.onDidChangeQueue(update),
+    sessionManager.onDidChangeSessions(update),
+    sessionManager.onDidChangeActiveSession(update),
+  );
   console.log("[Extension] Status bar item created");
 }
 
@@ -15,19 +15,48 @@ import * as path from "path";
 import {
   FileReference,
   FileStatistics,
+  FileProcessingConfig,
   DEFAULT_CONFIG,
   SupportedLanguage,
 } from "./types";
 import { FileUtils, ValidationUtils, ErrorUtils } from "./utils";
 
+/**
+ * Folders never worth listing, on top of the search.exclude setting
+ */
+const DEFAULT_SEARCH_EXCLUDES = [
+  "**/node_modules/**",
+  "**/out/**",
+  "**/dist/**",
+  "**/.git/**",
+];
+
+/**
+ * Labels of diagnostic severities in problem listings
+ */
+const SEVERITY_LABELS: Record<vscode.DiagnosticSeverity, string> = {
+  [vscode.DiagnosticSeverity.Error]: "error",
+  [vscode.DiagnosticSeverity.Warning]: "warning",
+  [vscode.DiagnosticSeverity.Information]: "info",
+  [vscode.DiagnosticSeverity.Hint]: "hint",
+};
+
 /**
  * File Manager class for handling file operations
  */
 export class FileManager {
-  private readonly maxFileSize: number;
-  private readonly maxFilesPerFolder: number;
+  private maxFileSize: number;
+  private maxFilesPerFolder: number;
+
+  constructor(config: FileProcessingConfig = DEFAULT_CONFIG) {
+    this.maxFileSize = config.maxFileSize;
+    this.maxFilesPerFolder = config.maxFilesPerFolder;
+  }
 
-  constructor(config = DEFAULT_CONFIG) {
+  /**
+   * Applies updated file processing limits
+   */
+  updateConfig(config: FileProcessingConfig): void {
     this.maxFileSize = config.maxFileSize;
     this.maxFilesPerFolder = config.maxFilesPerFolder;
   }
@@ -92,6 +121,200 @@ export class FileManager {
     };
   }
 
+  /**
+   * Creates a FileReference from a URI, preferring the open document so
+   * unsaved changes are included
+   */
+  async createFileReferenceFromUri(uri: vscode.Uri): Promise<FileReference> {
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString(),
+    );
+    if (document) {
+      return this.createFileReferenceFromDocument(document);
+    }
+
+    return await this.processFile(uri);
+  }
+
+  /**
+   * Finds supported workspace files whose name contains the query,
+   * ignoring case. Skips files excluded from search.
+   */
+  async findWorkspaceFiles(
+    query: string,
+    maxResults: number,
+  ): Promise<vscode.Uri[]> {
+    // Globs are case sensitive, so match each letter in either case
+    const namePattern = Array.from(query.replace(/[\\[\]{}*?!,]/g, ""))
+      .map((char) =>
+        char.toLowerCase() !== char.toUpperCase()
+          ? `[${char.toLowerCase()}${char.toUpperCase()}]`
+          : char,
+      )
+      .join("");
+
+    // Ask for extra results since unsupported files are dropped below
+    const uris = await vscode.workspace.findFiles(
+      `**/*${namePattern}*`,
+      FileManager.getSearchExclude(),
+      maxResults * 4,
+    );
+
+    return uris
+      .filter((uri) => this.isSupportedFile(uri.fsPath))
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Builds the exclude glob of workspace searches from the files.exclude
+   * and search.exclude settings, since findFiles only applies the former
+   */
+  private static getSearchExclude(): string {
+    const excluded = new Set(DEFAULT_SEARCH_EXCLUDES);
+    for (const section of ["files", "search"]) {
+      const patterns = vscode.workspace
+        .getConfiguration(section)
+        .get<Record<string, unknown>>("exclude", {});
+      Object.entries(patterns)
+        .filter(([, enabled]) => enabled === true)
+        .forEach(([pattern]) => excluded.add(pattern));
+    }
+    return `{${[...excluded].join(",")}}`;
+  }
+
+  /**
+   * Gets the errors and warnings reported for the workspace, leaving out
+   * information and hints
+   */
+  static getErrorsAndWarnings(): [vscode.Uri, vscode.Diagnostic[]][] {
+    return vscode.languages
+      .getDiagnostics()
+      .map(([uri, diagnostics]): [vscode.Uri, vscode.Diagnostic[]] => [
+        uri,
+        diagnostics.filter(
+          (diagnostic) =>
+            diagnostic.severity <= vscode.DiagnosticSeverity.Warning,
+        ),
+      ]);
+  }
+
+  /**
+   * Creates a FileReference listing problems reported by the language
+   * services, each followed by the code around it.
+   * The most severe come first when there are more than maxProblems.
+   */
+  async createProblemsReference(
+    diagnostics: ReadonlyArray<[vscode.Uri, readonly vscode.Diagnostic[]]>,
+    contextLines: number = 2,
+    maxProblems: number = 50,
+  ): Promise<FileReference> {
+    const problems = diagnostics
+      .flatMap(([uri, fileDiagnostics]) =>
+        fileDiagnostics.map((diagnostic) => ({ uri, diagnostic })),
+      )
+      .sort((a, b) => a.diagnostic.severity - b.diagnostic.severity);
+
+    if (problems.length === 0) {
+      throw new Error("There are no errors or warnings to attach");
+    }
+
+    const sections: string[] = [];
+    for (const { uri, diagnostic } of problems.slice(0, maxProblems)) {
+      const document = await vscode.workspace.openTextDocument(uri);
+      sections.push(this.formatProblem(document, diagnostic, contextLines));
+    }
+
+    if (problems.length > maxProblems) {
+      sections.push(
+        `(${problems.length - maxProblems} more problems not included)`,
+      );
+    }
+
+    const content = sections.join("\n\n");
+    const stats = FileUtils.getFileStatistics(content);
+
+    return {
+      fileName: `Problems (${Math.min(problems.length, maxProblems)})`,
+      filePath: "problems",
+      content,
+      language: SupportedLanguage.PLAINTEXT,
+      size: stats.fileSize,
+      lineCount: stats.lineCount,
+    };
+  }
+
+  /**
+   * Formats one problem as its location and message, followed by the
+   * numbered lines around it with the offending lines marked by ">"
+   */
+  private formatProblem(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    contextLines: number,
+  ): string {
+    const { start, end } = diagnostic.range;
+    const severity = SEVERITY_LABELS[diagnostic.severity];
+    const code =
+      typeof diagnostic.code === "object"
+        ? diagnostic.code.value
+        : diagnostic.code;
+    const origin = [diagnostic.source, code].filter(
+      (part) => part !== undefined && part !== "",
+    );
+
+    const header = `${vscode.workspace.asRelativePath(document.uri)}:${start.line + 1}:${start.character + 1} ${severity}${origin.length > 0 ? ` [${origin.join(" ")}]` : ""}: ${diagnostic.message}`;
+
+    const firstLine = Math.max(0, start.line - contextLines);
+    const lastLine = Math.min(document.lineCount - 1, end.line + contextLines);
+    const numberWidth = String(lastLine + 1).length;
+    const codeLines: string[] = [];
+
+    for (let line = firstLine; line <= lastLine; line++) {
+      const marker = line >= start.line && line <= end.line ? ">" : " ";
+      const number = String(line + 1).padStart(numberWidth);
+      codeLines.push(`${marker} ${number} | ${document.lineAt(line).text}`);
+    }
+
+    return `${header}\n${codeLines.join("\n")}`;
+  }
+
+  /**
+   * Creates a FileReference listing the workspace files, so questions
+   * about the project layout have something to go on
+   */
+  async createWorkspaceReference(maxResults: number): Promise<FileReference> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders?.length) {
+      throw new Error("No workspace folder is open");
+    }
+
+    const uris = await vscode.workspace.findFiles(
+      "**/*",
+      FileManager.getSearchExclude(),
+      maxResults,
+    );
+    const paths = uris
+      .map((uri) => vscode.workspace.asRelativePath(uri))
+      .sort((a, b) => a.localeCompare(b));
+
+    const header = `Workspace folders: ${folders.map((folder) => folder.name).join(", ")}`;
+    const footer =
+      uris.length >= maxResults
+        ? `\n(only the first ${maxResults} files are listed)`
+        : "";
+    const content = `${header}\n\n${paths.join("\n")}${footer}`;
+    const stats = FileUtils.getFileStatistics(content);
+
+    return {
+      fileName: "Workspace",
+      filePath: "workspace",
+      content,
+      language: SupportedLanguage.PLAINTEXT,
+      size: stats.fileSize,
+      lineCount: stats.lineCount,
+    };
+  }
+
   /**
    * Reads file content from a URI
    */
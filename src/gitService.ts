@@ -0,0 +1,187 @@
+/**
+ * Git Integration for AI Code Assistant VS Code Extension
+ *
+ * This module reads working tree changes through the API of the built-in
+ * Git extension, attaches them to the chat as diffs and writes commit
+ * messages for the staged changes.
+ *
+ * @fileoverview Git diffs as chat context and commit message generation
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { FileReference, SupportedLanguage } from "./types";
+import { LLMProvider } from "./llmProvider";
+import { CancellationUtils, FileUtils, StringUtils } from "./utils";
+
+/**
+ * System prompt used to write commit messages from a diff
+ */
+export const COMMIT_MESSAGE_SYSTEM_PROMPT = `You write git commit messages following the Conventional Commits specification.
+Reply with the commit message only: a subject line of the form "type(optional scope): summary" using one of feat, fix, docs, style, refactor, perf, test, build, ci or chore, in the imperative mood and at most 72 characters, then optionally a blank line and a short body explaining what changed and why.
+Do not wrap the message in quotes or code fences.`;
+
+/** Longest diff sent to the model when writing a commit message */
+const MAX_COMMIT_DIFF_LENGTH = 16000;
+
+/**
+ * Subset of the API exported by the built-in Git extension (vscode.git)
+ */
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly inputBox: { value: string };
+  /** Diff of the index (cached) or of the working tree against the index */
+  diff(cached?: boolean): Promise<string>;
+}
+
+/**
+ * Reads changes from git repositories open in the workspace
+ */
+export class GitService {
+  constructor(private readonly llmProvider: LLMProvider) {}
+
+  /**
+   * Creates a FileReference holding the staged or unstaged changes
+   * of the repository as a unified diff
+   */
+  async createDiffReference(
+    staged: boolean,
+    rootUri?: vscode.Uri,
+  ): Promise<FileReference> {
+    const repository = await this.getRepository(rootUri);
+    const diff = await repository.diff(staged);
+
+    if (!diff.trim()) {
+      throw new Error(
+        staged
+          ? "There are no staged changes"
+          : "There are no unstaged changes",
+      );
+    }
+
+    const stats = FileUtils.getFileStatistics(diff);
+
+    return {
+      fileName: `${staged ? "Staged" : "Unstaged"} changes (${path.basename(repository.rootUri.fsPath)})`,
+      filePath: repository.rootUri.fsPath,
+      content: diff,
+      language: SupportedLanguage.DIFF,
+      size: stats.fileSize,
+      lineCount: stats.lineCount,
+    };
+  }
+
+  /**
+   * Writes a commit message for the staged changes into the Source Control
+   * input box, streaming it as it is generated. Uses the unstaged changes
+   * when nothing is staged.
+   */
+  async generateCommitMessage(rootUri?: vscode.Uri): Promise<void> {
+    const repository = await this.getRepository(rootUri);
+    const diff =
+      (await repository.diff(true)).trim() ||
+      (await repository.diff(false)).trim();
+
+    if (!diff) {
+      vscode.window.showInformationMessage(
+        "There are no changes to write a commit message for",
+      );
+      return;
+    }
+
+    const previousMessage = repository.inputBox.value;
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Generating commit message...",
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        let message = "";
+        const cancellation = CancellationUtils.linkAbortSignal(token);
+
+        try {
+          const response = await this.llmProvider.streamChatResponse(
+            [
+              { role: "system", content: COMMIT_MESSAGE_SYSTEM_PROMPT },
+              {
+                role: "user",
+                content: `Write a commit message for these changes:\n\n${StringUtils.truncate(diff, MAX_COMMIT_DIFF_LENGTH)}`,
+              },
+            ],
+            (delta) => {
+              message += delta;
+              repository.inputBox.value = message;
+            },
+            undefined,
+            { signal: cancellation.signal },
+          );
+
+          repository.inputBox.value = GitService.cleanCommitMessage(response);
+        } catch (error) {
+          // Leave the box as the user had it rather than half a message
+          repository.inputBox.value = previousMessage;
+          if (!CancellationUtils.isCancellation(error)) {
+            throw error;
+          }
+        } finally {
+          cancellation.dispose();
+        }
+      },
+    );
+  }
+
+  /**
+   * Removes code fences and quotes the model may wrap the message in
+   */
+  static cleanCommitMessage(response: string): string {
+    return response
+      .trim()
+      .replace(/^```\w*\n([\s\S]*?)\n?```$/, "$1")
+      .replace(/^["'`]+|["'`]+$/g, "")
+      .trim();
+  }
+
+  /**
+   * Finds the repository containing rootUri, else the one of the active
+   * editor, else the first open repository
+   */
+  private async getRepository(rootUri?: vscode.Uri): Promise<GitRepository> {
+    const api = await this.getGitAPI();
+    const uri = rootUri ?? vscode.window.activeTextEditor?.document.uri;
+    const repository = (uri && api.getRepository(uri)) ?? api.repositories[0];
+
+    if (!repository) {
+      throw new Error("No git repository is open in the workspace");
+    }
+
+    return repository;
+  }
+
+  /**
+   * Gets the API of the built-in Git extension, activating it if needed
+   */
+  private async getGitAPI(): Promise<GitAPI> {
+    const extension =
+      vscode.extensions.getExtension<GitExtension>("vscode.git");
+    const gitExtension = extension && (await extension.activate());
+    if (!gitExtension?.enabled) {
+      throw new Error("The built-in Git extension is not enabled");
+    }
+
+    return gitExtension.getAPI(1);
+  }
+}
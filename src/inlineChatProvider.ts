@@ -5,23 +5,24 @@
  */
 
 import * as vscode from "vscode";
-import { OllamaService } from "./ollamaService";
+import { LLMProvider } from "./llmProvider";
+import { CancellationUtils } from "./utils";
 
 export class InlineChatProvider {
   private static instance: InlineChatProvider;
-  private ollamaService: OllamaService;
+  private llmProvider: LLMProvider;
   private activeSession: InlineChatSession | undefined;
 
-  private constructor(ollamaService: OllamaService) {
-    this.ollamaService = ollamaService;
+  private constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider;
   }
 
   public static getInstance(
-    ollamaService: OllamaService,
+    llmProvider: LLMProvider,
   ): InlineChatProvider {
     if (!InlineChatProvider.instance) {
       InlineChatProvider.instance = new InlineChatProvider(
-        ollamaService,
+        llmProvider,
       );
     }
     return InlineChatProvider.instance;
@@ -45,7 +46,7 @@ export class InlineChatProvider {
     // Create new session
     this.activeSession = new InlineChatSession(
       editor,
-      this.ollamaService,
+      this.llmProvider,
     );
 
     await this.activeSession.start();
@@ -86,7 +87,7 @@ export class InlineChatProvider {
 
 class InlineChatSession {
   private editor: vscode.TextEditor;
-  private ollamaService: OllamaService;
+  private llmProvider: LLMProvider;
   private originalPosition: vscode.Position;
   private suggestionRange: vscode.Range | undefined;
   private suggestionDecoration: vscode.TextEditorDecorationType;
@@ -96,10 +97,10 @@ class InlineChatSession {
 
   constructor(
     editor: vscode.TextEditor,
-    ollamaService: OllamaService,
+    llmProvider: LLMProvider,
   ) {
     this.editor = editor;
-    this.ollamaService = ollamaService;
+    this.llmProvider = llmProvider;
     this.originalPosition = editor.selection.active;
 
     // Create decoration type for highlighting suggestions
@@ -218,11 +219,23 @@ class InlineChatSession {
         {
           location: vscode.ProgressLocation.Notification,
           title: "AI Assistant is thinking...",
-          cancellable: false,
+          cancellable: true,
         },
-        async (progress) => {
+        async (progress, token) => {
           // Get AI response
-          const response = await this.ollamaService.generateResponse(prompt);
+          const cancellation = CancellationUtils.linkAbortSignal(token);
+          let response: string;
+          try {
+            response = await this.llmProvider.generateResponse(
+              prompt,
+              undefined,
+              undefined,
+              undefined,
+              { signal: cancellation.signal, priority: "inline" },
+            );
+          } finally {
+            cancellation.dispose();
+          }
 
           // Extract code from response if it contains code blocks
           const codeMatch = response.match(/```(?:\w+)?\n?([\s\S]*?)```/);
@@ -236,6 +249,11 @@ class InlineChatSession {
         },
       );
     } catch (error) {
+      if (CancellationUtils.isCancellation(error)) {
+        this.editor.setDecorations(this.cursorDecoration, []);
+        vscode.window.showInformationMessage("AI request cancelled");
+        return;
+      }
       console.error("[InlineChat] Error getting AI response:", error);
       vscode.window.showErrorMessage(`Failed to get AI response: ${error}`);
     } finally {
@@ -366,75 +384,3 @@ Please provide a helpful response. If you're suggesting code changes, provide on
     this.disposables = [];
   }
 }
-
-/**
- * Register inline completion provider for AI chat suggestions
- */
-export function registerInlineCompletions(
-  context: vscode.ExtensionContext,
-  ollamaService: OllamaService,
-) {
-  const provider: vscode.InlineCompletionItemProvider = {
-    async provideInlineCompletionItems(
-      document: vscode.TextDocument,
-      position: vscode.Position,
-      _context: vscode.InlineCompletionContext,
-      _token: vscode.CancellationToken,
-    ) {
-
-      // Assemble context code (10 lines before and after)
-      const startLine = Math.max(0, position.line - 10);
-      const endLine = Math.min(document.lineCount - 1, position.line + 10);
-      const contextRange = new vscode.Range(
-        startLine,
-        0,
-        endLine,
-        document.lineAt(endLine).text.length,
-      );
-      const contextCode = document.getText(contextRange);
-
-      // Get current line as the user input
-      const lineText = document.lineAt(position.line).text.trim();
-
-      if (!lineText) {
-        return { items: [] };
-      }
-
-      // Prepare prompt
-      const prompt =
-        `You are an AI coding assistant. The user has asked: "${lineText}"\n\n` +
-        `Context around line ${position.line + 1}:\n` +
-        "```" +
-        document.languageId +
-        "\n" +
-        contextCode +
-        "\n```";
-
-      let suggestionText = "";
-      try {
-        const response = await ollamaService.generateResponse(prompt);
-        const codeMatch = response.match(/```(?:\w+)?\n?([\s\S]*?)```/);
-        suggestionText = (codeMatch ? codeMatch[1] : response).trim();
-      } catch (error) {
-        console.error("InlineCompletions error:", error);
-        return { items: [] };
-      }
-
-      if (!suggestionText) {
-        return { items: [] };
-      }
-
-      const item = new vscode.InlineCompletionItem(
-        suggestionText,
-        new vscode.Range(position, position),
-      );
-      return { items: [item] };
-    },
-  };
-  context.subscriptions.push(
-    vscode.languages.registerInlineCompletionItemProvider(
-      { pattern: "**" },
-      provider,
-    ),
-  );
-}
@@ -0,0 +1,239 @@
+/**
+ * Inline Completion Provider for AI Code Assistant VS Code Extension
+ *
+ * This module suggests code at the cursor as ghost text. Requests wait for
+ * a pause in typing, are cancelled by the next keystroke, and answers are
+ * cached by the code around the cursor so undoing or retyping is instant.
+ *
+ * @fileoverview Inline code completions
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { LLMProvider } from "./llmProvider";
+import { InlineCompletionConfig } from "./types";
+import { CancellationUtils, RetryUtils } from "./utils";
+import { ExtensionConfiguration } from "./configuration";
+
+/** Lines before the cursor sent as context */
+const PREFIX_LINES = 30;
+
+/** Lines after the cursor sent as context */
+const SUFFIX_LINES = 10;
+
+/** Characters typed on the line before completions are requested */
+const MIN_TRIGGER_LENGTH = 3;
+
+/** Completions kept in the cache */
+const MAX_CACHE_ENTRIES = 100;
+
+/** Marks the cursor in the code sent to the model */
+const CURSOR_MARKER = "<CURSOR>";
+
+const COMPLETION_SYSTEM_PROMPT = `You are a code completion engine. Reply with only the code to insert at ${CURSOR_MARKER}: no explanations, no Markdown and none of the code around it.`;
+
+/**
+ * Suggests code at the cursor using the model provider
+ */
+export class InlineCompletionProvider
+  implements vscode.InlineCompletionItemProvider
+{
+  /** Completions by cache key, least recently used first */
+  private cache = new Map<string, string>();
+
+  constructor(private readonly llmProvider: LLMProvider) {}
+
+  /**
+   * Gets the completion for the cursor position, from the cache or,
+   * after a pause in typing, from the model
+   */
+  async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.InlineCompletionList> {
+    const config = ExtensionConfiguration.getInlineCompletionConfig();
+    if (
+      !InlineCompletionProvider.isEnabled(config, document.languageId) ||
+      !InlineCompletionProvider.shouldTrigger(document, position, context) ||
+      !this.llmProvider.getConnectionStatus().connected
+    ) {
+      return { items: [] };
+    }
+
+    const prefix = document.getText(
+      new vscode.Range(
+        Math.max(0, position.line - PREFIX_LINES),
+        0,
+        position.line,
+        position.character,
+      ),
+    );
+    const suffix = document.getText(
+      new vscode.Range(
+        position,
+        document.lineAt(
+          Math.min(document.lineCount - 1, position.line + SUFFIX_LINES),
+        ).range.end,
+      ),
+    );
+    const key = InlineCompletionProvider.createCacheKey(
+      this.llmProvider.getDefaultModel(),
+      document.languageId,
+      prefix,
+      suffix,
+    );
+
+    let completion = this.getCached(key);
+    if (completion === undefined) {
+      const cancellation = CancellationUtils.linkAbortSignal(token);
+      const { signal } = cancellation;
+      try {
+        // Wait for a pause in typing; the next keystroke cancels the token
+        await RetryUtils.delay(config.debounceDelay, signal);
+
+        // Each completion replaces the one requested before it
+        const response = await this.llmProvider.generateResponse(
+          `Complete the ${document.languageId} code at ${CURSOR_MARKER}:\n\n${prefix}${CURSOR_MARKER}${suffix}`,
+          undefined,
+          undefined,
+          COMPLETION_SYSTEM_PROMPT,
+          {
+            signal,
+            priority: "background",
+            supersedeKey: "inlineCompletion",
+            maxAttempts: 1,
+          },
+        );
+        completion = InlineCompletionProvider.cleanCompletion(
+          response,
+          document.lineAt(position.line).text.slice(0, position.character),
+        );
+        this.setCached(key, completion);
+      } catch (error) {
+        if (!CancellationUtils.isCancellation(error)) {
+          console.error("[InlineCompletionProvider] Completion failed:", error);
+        }
+        return { items: [] };
+      } finally {
+        cancellation.dispose();
+      }
+    }
+
+    if (!completion.trim()) {
+      return { items: [] };
+    }
+    return {
+      items: [
+        new vscode.InlineCompletionItem(
+          completion,
+          new vscode.Range(position, position),
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Gets a cached completion, marking it as recently used
+   */
+  private getCached(key: string): string | undefined {
+    const completion = this.cache.get(key);
+    if (completion !== undefined) {
+      this.cache.delete(key);
+      this.cache.set(key, completion);
+    }
+    return completion;
+  }
+
+  /**
+   * Caches a completion, evicting the least recently used one when full
+   */
+  private setCached(key: string, completion: string): void {
+    this.cache.delete(key);
+    this.cache.set(key, completion);
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Checks the per-language setting, falling back to the "*" entry
+   */
+  static isEnabled(
+    config: InlineCompletionConfig,
+    languageId: string,
+  ): boolean {
+    return config.enable[languageId] ?? config.enable["*"] ?? true;
+  }
+
+  /**
+   * Decides whether typing at the position is worth a request: at the end
+   * of a line (or before closing brackets) after a few characters.
+   * Completions asked for explicitly are always requested.
+   */
+  static shouldTrigger(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.InlineCompletionContext,
+  ): boolean {
+    if (context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke) {
+      return true;
+    }
+
+    const line = document.lineAt(position.line).text;
+    const before = line.slice(0, position.character);
+    const after = line.slice(position.character);
+
+    return (
+      /^[\s)\]}'"`;,]*$/.test(after) &&
+      before.trim().length >= MIN_TRIGGER_LENGTH
+    );
+  }
+
+  /**
+   * Hashes the model, language and code around the cursor
+   */
+  static createCacheKey(
+    model: string,
+    languageId: string,
+    prefix: string,
+    suffix: string,
+  ): string {
+    return createHash("sha256")
+      .update([model, languageId, prefix, suffix].join("\0"))
+      .digest("hex");
+  }
+
+  /**
+   * Takes the code out of a reply, dropping a repeat of the text already
+   * typed on the line
+   */
+  static cleanCompletion(response: string, linePrefix: string): string {
+    const codeMatch = response.match(/```[\w+-]*\n?([\s\S]*?)```/);
+    const completion = (codeMatch ? codeMatch[1] : response).trimEnd();
+
+    const typed = linePrefix.trim();
+    const start = completion.trimStart();
+    return typed && start.startsWith(typed)
+      ? start.slice(typed.length)
+      : completion;
+  }
+}
+
+/**
+ * Registers the inline completion provider for all files
+ */
+export function registerInlineCompletions(
+  context: vscode.ExtensionContext,
+  llmProvider: LLMProvider,
+): void {
+  context.subscriptions.push(
+    vscode.languages.registerInlineCompletionItemProvider(
+      { pattern: "**" },
+      new InlineCompletionProvider(llmProvider),
+    ),
+  );
+}
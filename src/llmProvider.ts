@@ -0,0 +1,588 @@
+/**
+ * Model Provider abstraction for AI Code Assistant VS Code Extension
+ *
+ * This module defines the LLMProvider interface that the chat, inline chat
+ * and completion features are written against, plus a base class holding
+ * the prompt helpers and model selection shared by every backend.
+ *
+ * @fileoverview Model provider interface and shared implementation
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import {
+  FileReference,
+  LLMMessage,
+  LLMModelInfo,
+  RequestOptions,
+  RequestQueueStatus,
+  ServiceConnectionStatus,
+} from "./types";
+import { ConnectionRefusedError, LLMError } from "./errors";
+import { findAvailableModel } from "./modelNames";
+import { RetryUtils } from "./utils";
+import { RequestScheduler } from "./requestScheduler";
+
+/**
+ * System prompt used for general coding assistance and chat conversations
+ */
+export const CODING_HELP_SYSTEM_PROMPT = `You are a helpful coding assistant. Provide clear, accurate, and practical advice for programming questions.
+Include code examples when appropriate and explain concepts clearly. Use markdown formatting for better readability.`;
+
+/** Attempts made by default for a request failing with a transient error */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** Delay before the first retry; later retries double it */
+const RETRY_BASE_DELAY = 1000;
+
+/** Longest delay between retries */
+const RETRY_MAX_DELAY = 8000;
+
+/**
+ * A chat model backend (Ollama, an OpenAI-compatible server, ...)
+ */
+export interface LLMProvider {
+  /** Name of the backend shown to the user */
+  readonly displayName: string;
+
+  /** Fires when the connection state or the model being loaded changes */
+  readonly onDidChangeStatus: vscode.Event<void>;
+
+  /** Checks that the server is reachable and refreshes the model list */
+  checkConnection(): Promise<boolean>;
+
+  /** Lists the models the server can run */
+  getAvailableModels(): Promise<string[]>;
+
+  /** Lists the models the server can run, with details where known */
+  listModels(): Promise<LLMModelInfo[]>;
+
+  /** Sends a conversation and resolves with the complete reply */
+  generateChatResponse(
+    messages: LLMMessage[],
+    model?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Sends a conversation and reports the reply token by token */
+  streamChatResponse(
+    messages: LLMMessage[],
+    onToken: (delta: string) => void,
+    model?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Answers a single prompt with optional context and system prompt */
+  generateResponse(
+    prompt: string,
+    context?: string,
+    model?: string,
+    systemPrompt?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Reviews a piece of code */
+  analyzeCode(
+    code: string,
+    fileName: string,
+    language: string,
+    userQuestion?: string,
+    model?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Answers a general coding question */
+  getCodingHelp(
+    question: string,
+    context?: string,
+    model?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Completes code or answers a question about the given files */
+  getCompletion(
+    prompt: string,
+    fileReferences: FileReference[],
+    model?: string,
+    options?: RequestOptions,
+  ): Promise<string>;
+
+  /** Gets the last known connection state */
+  getConnectionStatus(): ServiceConnectionStatus;
+
+  /** Fires when a request is queued, started or finished */
+  readonly onDidChangeQueue: vscode.Event<void>;
+
+  /** Gets the number of running and queued requests */
+  getQueueStatus(): RequestQueueStatus;
+
+  /** Gets the model used when no model is specified */
+  getDefaultModel(): string;
+
+  /** Sets the model used when no model is specified */
+  setDefaultModel(model: string): void;
+
+  /** Gets the context window (in tokens) of the model */
+  getContextWindow(): number;
+
+  /**
+   * Gets the context window (in tokens) for a model, capped at the length
+   * the model supports where the server reports it
+   */
+  getModelContextWindow(model: string): Promise<number>;
+}
+
+/**
+ * Shared implementation of the LLMProvider helpers.
+ * Subclasses only implement the HTTP calls and error mapping.
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly displayName: string;
+
+  protected defaultModel: string;
+  protected availableModels: string[] = [];
+  protected isConnected: boolean = false;
+  /** Whether a connection check or request has set isConnected yet */
+  private connectionKnown = false;
+  private warnedFallbackModels: Set<string> = new Set();
+  /** Models of streamed requests still waiting for their first token */
+  private loadingModels: string[] = [];
+
+  private readonly _onDidChangeStatus = new vscode.EventEmitter<void>();
+  readonly onDidChangeStatus: vscode.Event<void> =
+    this._onDidChangeStatus.event;
+
+  /** Queues chat requests so they share the server by priority */
+  private readonly scheduler = new RequestScheduler();
+  readonly onDidChangeQueue: vscode.Event<void> = this.scheduler.onDidChange;
+
+  constructor(defaultModel: string) {
+    this.defaultModel = defaultModel;
+  }
+
+  abstract checkConnection(): Promise<boolean>;
+
+  abstract getAvailableModels(): Promise<string[]>;
+
+  abstract listModels(): Promise<LLMModelInfo[]>;
+
+  abstract getContextWindow(): number;
+
+  /**
+   * Records the result of a connection check or a failed request.
+   * Returns whether the state is new, so periodic checks log only changes.
+   */
+  protected setConnected(connected: boolean): boolean {
+    const changed = !this.connectionKnown || this.isConnected !== connected;
+    this.connectionKnown = true;
+    if (this.isConnected !== connected) {
+      this.isConnected = connected;
+      this._onDidChangeStatus.fire();
+    }
+    return changed;
+  }
+
+  /**
+   * Records the models the server offers, logging the list when it changes
+   */
+  protected setAvailableModels(models: string[]): void {
+    if (models.join("\n") !== this.availableModels.join("\n")) {
+      console.log(`[${this.displayName}] Available models:`, models);
+    }
+    this.availableModels = models;
+  }
+
+  /**
+   * Gets the server URL requests are sent to
+   */
+  protected abstract getServerUrl(): string;
+
+  /**
+   * Makes a non-streaming chat request
+   */
+  protected abstract makeChatRequest(
+    model: string,
+    messages: LLMMessage[],
+    options: RequestOptions,
+  ): Promise<string>;
+
+  /**
+   * Makes a streaming chat request, invoking onToken for every delta
+   */
+  protected abstract makeStreamRequest(
+    model: string,
+    messages: LLMMessage[],
+    onToken: (delta: string) => void,
+    options: RequestOptions,
+  ): Promise<string>;
+
+  /**
+   * Converts a failed request into a CancellationError or an LLMError
+   */
+  protected abstract classifyRequestError(error: any, model: string): Error;
+
+  /**
+   * Runs a request, retrying transient failures with exponential backoff.
+   * canRetry lets streamed requests give up once tokens were delivered.
+   */
+  private async withRetry<T>(
+    model: string,
+    options: RequestOptions,
+    request: () => Promise<T>,
+    canRetry: () => boolean = () => true,
+  ): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error: any) {
+        const requestError = this.classifyRequestError(error, model);
+        if (
+          !(requestError instanceof LLMError) ||
+          !requestError.retryable ||
+          attempt >= maxAttempts ||
+          !canRetry()
+        ) {
+          throw requestError;
+        }
+
+        const delay = RetryUtils.getBackoffDelay(
+          attempt,
+          RETRY_BASE_DELAY,
+          RETRY_MAX_DELAY,
+        );
+        console.warn(
+          `[${this.displayName}] ${requestError.name}: ${requestError.message} Retrying in ${delay} ms (attempt ${attempt + 1} of ${maxAttempts})`,
+        );
+        await RetryUtils.delay(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Validates connection and model before making API calls
+   */
+  protected async validateConnection(
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    if (!this.isConnected) {
+      const connected = await this.checkConnection();
+      if (!connected) {
+        throw new ConnectionRefusedError(
+          this.displayName,
+          this.getServerUrl(),
+        );
+      }
+    }
+
+    const modelToUse = model || this.defaultModel;
+
+    // No model configured: use whatever the server offers first
+    if (!modelToUse && this.availableModels.length > 0) {
+      return this.availableModels[0];
+    }
+
+    if (this.availableModels.length === 0) {
+      return modelToUse;
+    }
+
+    // Verify model is available ("llama3.2" is "llama3.2:latest")
+    const availableModel = findAvailableModel(modelToUse, this.availableModels);
+    if (!availableModel) {
+      console.warn(
+        `[${this.displayName}] Model ${modelToUse} not found. Available models:`,
+        this.availableModels,
+      );
+      // Try to use the first available model as fallback
+      const fallbackModel = this.availableModels[0];
+      console.log(`[${this.displayName}] Using fallback model: ${fallbackModel}`);
+      this.reportModelFallback(modelToUse, fallbackModel, options);
+      return fallbackModel;
+    }
+
+    return availableModel;
+  }
+
+  /**
+   * Tells the caller (or, failing that, the user) that a fallback model
+   * answered. Without a caller handler each missing model is reported once.
+   */
+  private reportModelFallback(
+    requestedModel: string,
+    fallbackModel: string,
+    options: RequestOptions,
+  ): void {
+    if (options.onModelFallback) {
+      options.onModelFallback(requestedModel, fallbackModel);
+      return;
+    }
+
+    if (this.warnedFallbackModels.has(requestedModel)) {
+      return;
+    }
+    this.warnedFallbackModels.add(requestedModel);
+
+    vscode.window.showWarningMessage(
+      `Model "${requestedModel}" is not available on the ${this.displayName} server; using "${fallbackModel}" instead.`,
+    );
+  }
+
+  /**
+   * Generate a response for a single prompt
+   */
+  public async generateResponse(
+    prompt: string,
+    context?: string,
+    model?: string,
+    systemPrompt?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const messages = this.createPromptMessages(prompt, context, systemPrompt);
+    return this.generateChatResponse(messages, model, options);
+  }
+
+  /**
+   * Builds the message list for a single prompt with optional context
+   */
+  protected createPromptMessages(
+    prompt: string,
+    context?: string,
+    systemPrompt?: string,
+  ): LLMMessage[] {
+    const messages: LLMMessage[] = [];
+
+    // Add system prompt if provided
+    if (systemPrompt) {
+      messages.push({
+        role: "system",
+        content: systemPrompt,
+      });
+    }
+
+    // Add context if provided
+    if (context) {
+      messages.push({
+        role: "user",
+        content: `Context:\n${context}\n\nUser Question: ${prompt}`,
+      });
+    } else {
+      messages.push({
+        role: "user",
+        content: prompt,
+      });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Generate a response with conversation history
+   */
+  public async generateChatResponse(
+    messages: LLMMessage[],
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const modelToUse = await this.validateConnection(model, options);
+
+    return this.scheduler.schedule((signal) => {
+      const scheduledOptions = { ...options, signal };
+      return this.withRetry(modelToUse, scheduledOptions, () =>
+        this.makeChatRequest(modelToUse, messages, scheduledOptions),
+      );
+    }, options);
+  }
+
+  /**
+   * Stream a response with conversation history.
+   * Resolves with the full response once the stream completes.
+   */
+  public async streamChatResponse(
+    messages: LLMMessage[],
+    onToken: (delta: string) => void,
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const modelToUse = await this.validateConnection(model, options);
+
+    return this.scheduler.schedule(async (signal) => {
+      const scheduledOptions = { ...options, signal };
+
+      // Until the first token the server is loading the model or reading
+      // the prompt, which is what the status bar shows as "loading"
+      let loading = true;
+      const stopLoading = () => {
+        if (loading) {
+          loading = false;
+          this.loadingModels.splice(this.loadingModels.indexOf(modelToUse), 1);
+          this._onDidChangeStatus.fire();
+        }
+      };
+      this.loadingModels.push(modelToUse);
+      this._onDidChangeStatus.fire();
+
+      try {
+        // Retrying after tokens were delivered would repeat them
+        return await this.withRetry(
+          modelToUse,
+          scheduledOptions,
+          () =>
+            this.makeStreamRequest(
+              modelToUse,
+              messages,
+              (delta) => {
+                stopLoading();
+                onToken(delta);
+              },
+              scheduledOptions,
+            ),
+          () => loading,
+        );
+      } finally {
+        stopLoading();
+      }
+    }, options);
+  }
+
+  /**
+   * Generate a code analysis response
+   */
+  public async analyzeCode(
+    code: string,
+    fileName: string,
+    language: string,
+    userQuestion?: string,
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const systemPrompt = `You are an expert code assistant. Analyze the provided code and provide helpful insights including:
+- Code structure and organization
+- Potential improvements or optimizations
+- Bug detection and security issues
+- Best practices and conventions
+- Documentation suggestions
+
+Be concise but thorough in your analysis. Use markdown formatting for better readability.`;
+
+    let prompt = `Please analyze this ${language} code from file "${fileName}":\n\n\`\`\`${language}\n${code}\n\`\`\``;
+
+    if (userQuestion) {
+      prompt += `\n\nSpecific question: ${userQuestion}`;
+    }
+
+    return this.generateResponse(
+      prompt,
+      undefined,
+      model,
+      systemPrompt,
+      options,
+    );
+  }
+
+  /**
+   * Generate a general coding assistance response
+   */
+  public async getCodingHelp(
+    question: string,
+    context?: string,
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    return this.generateResponse(
+      question,
+      context,
+      model,
+      CODING_HELP_SYSTEM_PROMPT,
+      options,
+    );
+  }
+
+  /**
+   * Get code completion (for inline and panel completions)
+   */
+  public async getCompletion(
+    prompt: string,
+    fileReferences: FileReference[],
+    model?: string,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    // Build context from file references
+    let context = "";
+    if (fileReferences && fileReferences.length > 0) {
+      context = fileReferences
+        .map(
+          (ref) =>
+            `File: ${ref.fileName}\n\`\`\`${ref.language}\n${ref.content}\n\`\`\``,
+        )
+        .join("\n\n");
+    }
+
+    const systemPrompt = `You are an AI coding assistant. Provide concise, accurate, and helpful code completions or answers to programming questions.
+Focus on writing clean, efficient, and well-documented code. When providing code snippets, ensure they are properly formatted and ready to use.`;
+
+    return this.generateResponse(
+      prompt,
+      context,
+      model,
+      systemPrompt,
+      options,
+    );
+  }
+
+  /**
+   * Gets the context window for a model. Servers that report the model's
+   * context length override this; others use the configured window.
+   */
+  public async getModelContextWindow(_model: string): Promise<number> {
+    return this.getContextWindow();
+  }
+
+  /**
+   * Get connection status
+   */
+  public getConnectionStatus(): ServiceConnectionStatus {
+    return {
+      connected: this.isConnected,
+      url: this.getServerUrl(),
+      availableModels: this.availableModels,
+      loadingModel: this.loadingModels[this.loadingModels.length - 1],
+    };
+  }
+
+  /**
+   * Gets the number of running and queued requests
+   */
+  public getQueueStatus(): RequestQueueStatus {
+    return this.scheduler.getStatus();
+  }
+
+  /**
+   * Gets the model used when no model is specified
+   */
+  public getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * Set the default model.
+   * The model may not be available yet, so unknown names are kept with a
+   * warning and requests fall back to an available model until it appears.
+   */
+  public setDefaultModel(model: string): void {
+    this.defaultModel = model;
+    console.log(`[${this.displayName}] Default model set to: ${model}`);
+
+    if (
+      this.availableModels.length > 0 &&
+      !findAvailableModel(model, this.availableModels)
+    ) {
+      console.warn(
+        `[${this.displayName}] Model ${model} not available. Available models:`,
+        this.availableModels,
+      );
+    }
+  }
+}
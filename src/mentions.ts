@@ -0,0 +1,150 @@
+/**
+ * @-Mentions for AI Code Assistant VS Code Extension
+ *
+ * This module suggests and resolves the context that can be attached by
+ * typing `@` in the chat input: workspace files, open editors, the editor
+ * selection, the workspace problems and a listing of the workspace.
+ *
+ * @fileoverview Chat @-mention suggestions and resolution
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { FileReference } from "./types";
+import { FileManager } from "./fileManager";
+import { MentionData, MentionKind } from "./webview/protocol";
+
+/** Most suggestions shown for one query */
+const MAX_SUGGESTIONS = 20;
+
+/** Most files listed by @workspace */
+const MAX_WORKSPACE_FILES = 500;
+
+/**
+ * Mentions that stand for a kind of context rather than a file
+ */
+const CONTEXT_MENTIONS: MentionData[] = [
+  {
+    kind: "selection",
+    label: "selection",
+    description: "Code selected in the editor",
+  },
+  {
+    kind: "problems",
+    label: "problems",
+    description: "Errors and warnings in the workspace",
+  },
+  {
+    kind: "workspace",
+    label: "workspace",
+    description: "List of the files in the workspace",
+  },
+];
+
+/**
+ * Suggests @-mentions and turns them into file references
+ */
+export class MentionProvider {
+  constructor(private readonly fileManager: FileManager) {}
+
+  /**
+   * Gets the mentions matching what was typed after the @.
+   * Context mentions come first, then open editors, then workspace files.
+   */
+  async getSuggestions(query: string): Promise<MentionData[]> {
+    const lowerQuery = query.toLowerCase();
+    const suggestions = CONTEXT_MENTIONS.filter((mention) =>
+      mention.label.startsWith(lowerQuery),
+    );
+
+    const seen = new Set<string>();
+    const addFile = (uri: vscode.Uri) => {
+      const key = uri.toString();
+      if (seen.has(key) || suggestions.length >= MAX_SUGGESTIONS) {
+        return;
+      }
+      seen.add(key);
+      suggestions.push({
+        kind: "file",
+        label: path.basename(uri.fsPath),
+        description: vscode.workspace.asRelativePath(uri),
+        uri: key,
+      });
+    };
+
+    this.getOpenEditorUris()
+      .filter((uri) =>
+        vscode.workspace.asRelativePath(uri).toLowerCase().includes(lowerQuery),
+      )
+      .forEach(addFile);
+
+    if (suggestions.length < MAX_SUGGESTIONS) {
+      const files = await this.fileManager.findWorkspaceFiles(
+        query,
+        MAX_SUGGESTIONS,
+      );
+      files.forEach(addFile);
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Resolves a chosen mention into the file references to stage
+   */
+  async resolve(kind: MentionKind, uri?: string): Promise<FileReference[]> {
+    switch (kind) {
+      case "file":
+        if (!uri) {
+          throw new Error("No file was given for the mention");
+        }
+        return [
+          await this.fileManager.createFileReferenceFromUri(
+            vscode.Uri.parse(uri),
+          ),
+        ];
+
+      case "selection": {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+          throw new Error("Select some code in the editor to use @selection");
+        }
+        return [
+          this.fileManager.createFileReferenceFromDocument(
+            editor.document,
+            editor.document.getText(editor.selection),
+          ),
+        ];
+      }
+
+      case "problems":
+        return [
+          await this.fileManager.createProblemsReference(
+            FileManager.getErrorsAndWarnings(),
+          ),
+        ];
+
+      case "workspace":
+        return [
+          await this.fileManager.createWorkspaceReference(MAX_WORKSPACE_FILES),
+        ];
+    }
+  }
+
+  /**
+   * Gets the files open in editor tabs, in tab order
+   */
+  private getOpenEditorUris(): vscode.Uri[] {
+    return vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .map((tab) => tab.input)
+      .filter(
+        (input): input is vscode.TabInputText =>
+          input instanceof vscode.TabInputText,
+      )
+      .map((input) => input.uri)
+      .filter((uri) => uri.scheme === "file" || uri.scheme === "untitled");
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Model Management for AI Code Assistant VS Code Extension
+ *
+ * This module pulls, deletes, inspects and preloads models on the Ollama
+ * server, reporting progress and results in the editor.
+ *
+ * @fileoverview Ollama model management
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { ModelItem, OllamaPullProgress, OllamaShowResponse } from "./types";
+import { OllamaService } from "./ollamaService";
+import { CancellationUtils, FileUtils } from "./utils";
+
+/**
+ * Manages the models installed on the Ollama server
+ */
+export class ModelManager implements vscode.Disposable {
+  private readonly _onDidChangeModels = new vscode.EventEmitter<void>();
+  /** Fires when models are pulled, deleted or loaded */
+  readonly onDidChangeModels: vscode.Event<void> =
+    this._onDidChangeModels.event;
+
+  constructor(private readonly ollamaService: OllamaService) {}
+
+  /**
+   * Gets the installed models, marking the ones loaded in memory
+   */
+  async getModels(): Promise<ModelItem[]> {
+    const [models, running] = await Promise.all([
+      this.ollamaService.listModels(),
+      this.ollamaService.listRunningModels(),
+    ]);
+    const loaded = new Map(running.map((model) => [model.name, model]));
+
+    return models.map((model) => {
+      const runningModel = loaded.get(model.name);
+      return {
+        ...model,
+        loaded: !!runningModel,
+        expiresAt: runningModel?.expires_at
+          ? new Date(runningModel.expires_at)
+          : undefined,
+      };
+    });
+  }
+
+  /**
+   * Asks for a model name (the configured default model is suggested)
+   * and pulls it with progress shown in a notification
+   */
+  async pullModel(model?: string): Promise<void> {
+    const name =
+      model ??
+      (await vscode.window.showInputBox({
+        prompt: "Model to pull from the Ollama library, e.g. llama3.2:3b",
+        value: this.ollamaService.getDefaultModel(),
+        validateInput: (value) =>
+          value.trim() ? undefined : "Model name cannot be empty",
+      }));
+    if (!name?.trim()) {
+      return;
+    }
+
+    const completed = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Pulling ${name.trim()}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const cancellation = CancellationUtils.linkAbortSignal(token);
+        try {
+          await this.ollamaService.pullModel(
+            name.trim(),
+            (status) =>
+              progress.report({
+                message: ModelManager.formatProgress(status),
+              }),
+            cancellation.signal,
+          );
+          return true;
+        } catch (error) {
+          if (CancellationUtils.isCancellation(error)) {
+            return false;
+          }
+          throw error;
+        } finally {
+          cancellation.dispose();
+        }
+      },
+    );
+
+    if (completed) {
+      this._onDidChangeModels.fire();
+      vscode.window.showInformationMessage(`Pulled ${name.trim()}`);
+    }
+  }
+
+  /**
+   * Deletes a model after confirmation
+   */
+  async deleteModel(model: string): Promise<void> {
+    const confirmed = await vscode.window.showWarningMessage(
+      `Delete model "${model}" from the Ollama server?`,
+      { modal: true },
+      "Delete",
+    );
+    if (confirmed !== "Delete") {
+      return;
+    }
+
+    await this.ollamaService.deleteModel(model);
+    this._onDidChangeModels.fire();
+    vscode.window.showInformationMessage(`Deleted ${model}`);
+  }
+
+  /**
+   * Opens a Markdown summary of a model's details, parameters, template
+   * and modelfile
+   */
+  async showModel(model: string): Promise<void> {
+    const show = await this.ollamaService.showModel(model);
+    const document = await vscode.workspace.openTextDocument({
+      content: ModelManager.createModelSummary(model, show),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  /**
+   * Loads a model into memory so the first chat request does not wait
+   * for it
+   */
+  async warmModel(model: string): Promise<void> {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Loading ${model} into memory...`,
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const cancellation = CancellationUtils.linkAbortSignal(token);
+        try {
+          await this.ollamaService.warmModel(model, cancellation.signal);
+        } catch (error) {
+          if (!CancellationUtils.isCancellation(error)) {
+            throw error;
+          }
+        } finally {
+          cancellation.dispose();
+        }
+      },
+    );
+
+    this._onDidChangeModels.fire();
+  }
+
+  /**
+   * Formats a pull status line, e.g. "pulling 6a07...: 45% (1.8 GB of 4.1 GB)"
+   */
+  static formatProgress(status: OllamaPullProgress): string {
+    if (!status.total || status.completed === undefined) {
+      return status.status;
+    }
+
+    const percent = Math.floor((status.completed / status.total) * 100);
+    return `${status.status}: ${percent}% (${FileUtils.formatFileSize(status.completed)} of ${FileUtils.formatFileSize(status.total)})`;
+  }
+
+  /**
+   * Builds the Markdown shown by showModel
+   */
+  static createModelSummary(model: string, show: OllamaShowResponse): string {
+    const details = show.details ?? {};
+    const contextLength = OllamaService.getContextLength(show);
+    const rows = [
+      ["Family", details.family],
+      ["Parameters", details.parameter_size],
+      ["Quantization", details.quantization_level],
+      ["Format", details.format],
+      ["Context length", contextLength?.toLocaleString()],
+    ].filter((row): row is [string, string] => !!row[1]);
+
+    const sections = [
+      `# ${model}`,
+      ["| Property | Value |", "| --- | --- |"]
+        .concat(rows.map(([name, value]) => `| ${name} | ${value} |`))
+        .join("\n"),
+    ];
+
+    const addBlock = (title: string, content?: string) => {
+      if (content?.trim()) {
+        sections.push(`## ${title}\n\n\`\`\`\n${content.trim()}\n\`\`\``);
+      }
+    };
+    addBlock("Parameters", show.parameters);
+    addBlock("Template", show.template);
+    addBlock("Modelfile", show.modelfile);
+
+    return sections.join("\n\n") + "\n";
+  }
+
+  /**
+   * Disposes the change event
+   */
+  dispose(): void {
+    this._onDidChangeModels.dispose();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Model Names for AI Code Assistant VS Code Extension
+ *
+ * This module compares model names the way Ollama resolves them: a name
+ * without a tag means its "latest" tag, so "llama3.2" and "llama3.2:latest"
+ * are the same model.
+ *
+ * @fileoverview Model name matching
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+/** Tag Ollama assumes when a model name has none */
+const DEFAULT_TAG = "latest";
+
+/**
+ * Finds the server's name for a model, treating an untagged name as its
+ * default tag
+ */
+export function findAvailableModel(
+  model: string,
+  availableModels: string[],
+): string | undefined {
+  const name = withDefaultTag(model);
+  return (
+    availableModels.find((available) => available === model) ??
+    availableModels.find((available) => withDefaultTag(available) === name)
+  );
+}
+
+/**
+ * Adds the default tag to a model name without one. A colon before the
+ * last "/" belongs to a registry port, not a tag.
+ */
+function withDefaultTag(model: string): string {
+  return /:[^/]*$/.test(model) ? model : `${model}:${DEFAULT_TAG}`;
+}
@@ -11,32 +11,79 @@
 
 import axios, { AxiosInstance, AxiosResponse } from "axios";
 import * as vscode from "vscode";
-import { OllamaMessage, OllamaResponse, OllamaModelInfo } from "./types";
+import { StringDecoder } from "string_decoder";
+import {
+  LLMMessage,
+  LLMModelInfo,
+  OllamaResponse,
+  OllamaModelInfo,
+  OllamaShowResponse,
+  OllamaRunningModel,
+  OllamaPullProgress,
+  OllamaConfig,
+  GenerationStats,
+  RequestOptions,
+  DEFAULT_OLLAMA_CONFIG,
+} from "./types";
+import { StreamUtils } from "./utils";
+import { BaseLLMProvider } from "./llmProvider";
+import {
+  ConnectionRefusedError,
+  ContextOverflowError,
+  LLMError,
+  ModelNotFoundError,
+  ServerError,
+  TimeoutError,
+} from "./errors";
+
+/** Statuses Ollama answers with when a later attempt may succeed */
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Model provider backed by a local Ollama server
+ */
+export class OllamaService extends BaseLLMProvider {
+  readonly displayName = "Ollama";
 
-export class OllamaService {
   private client: AxiosInstance;
+  private config: OllamaConfig;
   private baseUrl: string;
-  private defaultModel: string;
-  private availableModels: string[] = [];
-  private isConnected: boolean = false;
-
-  constructor(
-    baseUrl: string = "http://localhost:11434",
-    defaultModel: string = "llama3.2",
-  ) {
-    this.baseUrl = baseUrl;
-    this.defaultModel = defaultModel;
-
-    this.client = axios.create({
+  /** Context length of each model reported by /api/show */
+  private contextLengths: Map<string, number | undefined> = new Map();
+
+  constructor(config: OllamaConfig = DEFAULT_OLLAMA_CONFIG) {
+    super(config.defaultModel);
+    this.config = { ...config };
+    this.baseUrl = config.baseUrl;
+    this.client = this.createClient();
+
+    // Initialize connection
+    this.checkConnection();
+  }
+
+  /**
+   * Creates the HTTP client for the current server URL and timeout
+   */
+  private createClient(): AxiosInstance {
+    return axios.create({
       baseURL: this.baseUrl,
-      timeout: 60000, // 60 seconds timeout for AI responses
+      timeout: this.config.timeout,
       headers: {
         "Content-Type": "application/json",
       },
     });
+  }
 
-    // Initialize connection
-    this.checkConnection();
+  /**
+   * Gets the model options sent with every chat request
+   */
+  private getModelOptions(): Record<string, number> {
+    return {
+      temperature: this.config.temperature,
+      top_p: this.config.topP,
+      top_k: this.config.topK,
+      num_ctx: this.config.contextWindow,
+    };
   }
 
   /**
@@ -45,23 +92,24 @@ export class OllamaService {
   public async checkConnection(): Promise<boolean> {
     try {
       const response = await this.client.get("/api/tags", { timeout: 5000 });
-      this.isConnected = true;
+      this.setConnected(true);
 
       // Extract available models
       if (response.data && response.data.models) {
-        this.availableModels = response.data.models.map(
-          (model: OllamaModelInfo) => model.name,
+        this.setAvailableModels(
+          response.data.models.map((model: OllamaModelInfo) => model.name),
         );
-        console.log("[OllamaService] Available models:", this.availableModels);
       }
 
       return true;
     } catch (error) {
-      this.isConnected = false;
-      console.error(
-        "[OllamaService] Failed to connect to Ollama server:",
-        error,
-      );
+      // The connection monitor checks periodically; log only the change
+      if (this.setConnected(false)) {
+        console.error(
+          "[OllamaService] Failed to connect to Ollama server:",
+          error,
+        );
+      }
       return false;
     }
   }
@@ -70,15 +118,26 @@ export class OllamaService {
    * Get the list of available models
    */
   public async getAvailableModels(): Promise<string[]> {
+    const models = await this.listModels();
+    return models.map((model) => model.name);
+  }
+
+  /**
+   * Get the installed models with their family, size and quantization
+   */
+  public async listModels(): Promise<LLMModelInfo[]> {
     try {
       const response = await this.client.get("/api/tags");
-      if (response.data && response.data.models) {
-        this.availableModels = response.data.models.map(
-          (model: OllamaModelInfo) => model.name,
-        );
-        return this.availableModels;
-      }
-      return [];
+      const models: OllamaModelInfo[] = response.data?.models ?? [];
+      this.setAvailableModels(models.map((model) => model.name));
+
+      return models.map((model) => ({
+        name: model.name,
+        family: model.details?.family,
+        parameterSize: model.details?.parameter_size,
+        quantization: model.details?.quantization_level,
+        size: model.size,
+      }));
     } catch (error) {
       console.error("[OllamaService] Error fetching models:", error);
       return [];
@@ -86,68 +145,65 @@ export class OllamaService {
   }
 
   /**
-   * Validates connection and model before making API calls
+   * Gets the Ollama server URL
    */
-  private async validateConnection(model?: string): Promise<string> {
-    if (!this.isConnected) {
-      const connected = await this.checkConnection();
-      if (!connected) {
-        throw new Error(
-          "Cannot connect to Ollama server. Make sure Ollama is running on " +
-            this.baseUrl,
-        );
-      }
-    }
-
-    const modelToUse = model || this.defaultModel;
-
-    // Verify model is available
-    if (
-      this.availableModels.length > 0 &&
-      !this.availableModels.includes(modelToUse)
-    ) {
-      console.warn(
-        `[OllamaService] Model ${modelToUse} not found. Available models:`,
-        this.availableModels,
-      );
-      // Try to use the first available model as fallback
-      if (this.availableModels.length > 0) {
-        const fallbackModel = this.availableModels[0];
-        console.log(`[OllamaService] Using fallback model: ${fallbackModel}`);
-        return fallbackModel;
-      }
-    }
-
-    return modelToUse;
+  protected getServerUrl(): string {
+    return this.baseUrl;
   }
 
   /**
-   * Common error handling for Ollama API responses
+   * Classifies a failed Ollama request into a typed error
    */
-  private handleOllamaError(error: any, modelToUse: string): never {
+  protected classifyRequestError(error: any, modelToUse: string): Error {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    if (axios.isCancel(error) || error instanceof vscode.CancellationError) {
+      return new vscode.CancellationError();
+    }
+
     console.error("[OllamaService] Error generating response:", error);
 
+    const status: number | undefined = error.response?.status;
+    const serverMessage =
+      typeof error.response?.data?.error === "string"
+        ? error.response.data.error
+        : undefined;
+
     if (error.code === "ECONNREFUSED") {
-      throw new Error(
-        "Cannot connect to Ollama server. Make sure Ollama is running.",
+      this.setConnected(false);
+      return new ConnectionRefusedError(this.displayName, this.baseUrl);
+    } else if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError();
+    } else if (error.code === "ECONNRESET") {
+      return new ServerError(
+        "The connection to Ollama was interrupted",
+        undefined,
+        true,
       );
-    } else if (error.response?.status === 404) {
-      throw new Error(
-        `Model "${modelToUse}" not found. Available models: ${this.availableModels.join(", ")}`,
+    } else if (status === 404) {
+      return new ModelNotFoundError(modelToUse, this.availableModels);
+    } else if (serverMessage && ContextOverflowError.matches(serverMessage)) {
+      return new ContextOverflowError(serverMessage);
+    } else if (status !== undefined) {
+      // Ollama answers 503 while busy or loading a model
+      return new ServerError(
+        `Ollama error: ${serverMessage ?? error.message}`,
+        status,
+        RETRYABLE_STATUSES.includes(status),
       );
-    } else if (error.response?.data?.error) {
-      throw new Error(`Ollama error: ${error.response.data.error}`);
     } else {
-      throw new Error(`Failed to generate response: ${error.message}`);
+      return new LLMError(`Failed to generate response: ${error.message}`);
     }
   }
 
   /**
    * Makes the actual API call to Ollama
    */
-  private async makeOllamaRequest(
+  protected async makeChatRequest(
     modelToUse: string,
-    messages: OllamaMessage[],
+    messages: LLMMessage[],
+    options: RequestOptions = {},
   ): Promise<string> {
     const response: AxiosResponse<OllamaResponse> = await this.client.post(
       "/api/chat",
@@ -155,197 +211,373 @@ export class OllamaService {
         model: modelToUse,
         messages: messages,
         stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          top_k: 40,
-        },
+        options: this.getModelOptions(),
+        keep_alive: this.config.keepAlive,
       },
+      { signal: options.signal },
     );
 
     if (response.data && response.data.message) {
+      options.onStats?.(this.toGenerationStats(modelToUse, response.data));
       return response.data.message.content.trim();
     } else {
-      throw new Error("Invalid response format from Ollama");
+      throw new ServerError("Invalid response format from Ollama");
     }
   }
+
   /**
-   * Generate a response using Ollama
+   * Makes a streaming API call to Ollama, invoking onToken for every delta.
+   * Ollama streams newline-delimited JSON objects until one has `done: true`.
    */
-  public async generateResponse(
-    prompt: string,
-    context?: string,
-    model?: string,
-    systemPrompt?: string,
+  protected async makeStreamRequest(
+    modelToUse: string,
+    messages: LLMMessage[],
+    onToken: (delta: string) => void,
+    options: RequestOptions = {},
   ): Promise<string> {
-    const modelToUse = await this.validateConnection(model);
-
-    // Check if we need to use fallback model due to validation
-    if (modelToUse !== (model || this.defaultModel)) {
-      return this.generateResponse(prompt, context, modelToUse, systemPrompt);
-    }
-
+    const { signal } = options;
+    let response: AxiosResponse;
     try {
-      const messages: OllamaMessage[] = [];
-
-      // Add system prompt if provided
-      if (systemPrompt) {
-        messages.push({
-          role: "system",
-          content: systemPrompt,
-        });
-      }
+      response = await this.client.post(
+        "/api/chat",
+        {
+          model: modelToUse,
+          messages: messages,
+          stream: true,
+          options: this.getModelOptions(),
+          keep_alive: this.config.keepAlive,
+        },
+        { responseType: "stream", signal },
+      );
+    } catch (error) {
+      // Error replies are streamed too; read them to classify the error
+      await StreamUtils.readErrorBody(error);
+      throw error;
+    }
 
-      // Add context if provided
-      if (context) {
-        messages.push({
-          role: "user",
-          content: `Context:\n${context}\n\nUser Question: ${prompt}`,
-        });
+    return new Promise<string>((resolve, reject) => {
+      const stream = response.data;
+      const decoder = new StringDecoder("utf8");
+      let content = "";
+      let settled = false;
+
+      const onAbort = () => {
+        stream.destroy();
+        finish(new vscode.CancellationError());
+      };
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(content.trim());
+        }
+      };
+
+      const lineBuffer = StreamUtils.createLineBuffer((line) => {
+        let chunk: OllamaResponse & { error?: string };
+        try {
+          chunk = JSON.parse(line);
+        } catch {
+          console.warn("[OllamaService] Skipping malformed stream chunk:", line);
+          return;
+        }
+
+        if (chunk.error) {
+          stream.destroy();
+          finish(
+            ContextOverflowError.matches(chunk.error)
+              ? new ContextOverflowError(chunk.error)
+              : new ServerError(`Ollama error: ${chunk.error}`),
+          );
+          return;
+        }
+
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta);
+        }
+
+        if (chunk.done) {
+          options.onStats?.(this.toGenerationStats(modelToUse, chunk));
+          finish();
+        }
+      });
+
+      stream.on("data", (data: Buffer) => lineBuffer.push(decoder.write(data)));
+      stream.on("end", () => {
+        lineBuffer.push(decoder.end());
+        lineBuffer.flush();
+        finish();
+      });
+      stream.on("error", (error: Error) => finish(error));
+
+      // Stop reading as soon as the caller cancels mid-stream
+      if (signal?.aborted) {
+        onAbort();
       } else {
-        messages.push({
-          role: "user",
-          content: prompt,
-        });
+        signal?.addEventListener("abort", onAbort);
       }
-
-      return await this.makeOllamaRequest(modelToUse, messages);
-    } catch (error: any) {
-      this.handleOllamaError(error, modelToUse);
-    }
+    });
   }
 
   /**
-   * Generate a response using Ollama with conversation history
+   * Converts the counters of a final Ollama response (durations in
+   * nanoseconds) into generation stats
    */
-  public async generateChatResponse(
-    messages: OllamaMessage[],
-    model?: string,
-  ): Promise<string> {
-    const modelToUse = await this.validateConnection(model);
-
-    // Check if we need to use fallback model due to validation
-    if (modelToUse !== (model || this.defaultModel)) {
-      return this.generateChatResponse(messages, modelToUse);
-    }
+  private toGenerationStats(
+    model: string,
+    response: OllamaResponse,
+  ): GenerationStats {
+    const toMilliseconds = (nanoseconds?: number) =>
+      nanoseconds === undefined ? undefined : nanoseconds / 1e6;
+    const { eval_count, eval_duration } = response;
 
-    try {
-      return await this.makeOllamaRequest(modelToUse, messages);
-    } catch (error: any) {
-      console.error("[OllamaService] Error generating chat response:", error);
-      throw error;
-    }
+    return {
+      model,
+      promptTokens: response.prompt_eval_count,
+      completionTokens: eval_count,
+      tokensPerSecond:
+        eval_count !== undefined && eval_duration
+          ? eval_count / (eval_duration / 1e9)
+          : undefined,
+      loadDuration: toMilliseconds(response.load_duration),
+      totalDuration: toMilliseconds(response.total_duration),
+    };
   }
 
   /**
-   * Generate a code analysis response
+   * Set the default model
    */
-  public async analyzeCode(
-    code: string,
-    fileName: string,
-    language: string,
-    userQuestion?: string,
-    model?: string,
-  ): Promise<string> {
-    const systemPrompt = `You are an expert code assistant. Analyze the provided code and provide helpful insights including:
-- Code structure and organization
-- Potential improvements or optimizations
-- Bug detection and security issues
-- Best practices and conventions
-- Documentation suggestions
+  public setDefaultModel(model: string): void {
+    super.setDefaultModel(model);
+    this.config.defaultModel = model;
+  }
 
-Be concise but thorough in your analysis. Use markdown formatting for better readability.`;
+  /**
+   * Update Ollama server URL
+   */
+  public updateServerUrl(url: string): void {
+    this.baseUrl = url;
+    this.contextLengths.clear();
+    this.config.baseUrl = url;
+    this.client = this.createClient();
+    this.checkConnection();
+  }
 
-    let prompt = `Please analyze this ${language} code from file "${fileName}":\n\n\`\`\`${language}\n${code}\n\`\`\``;
+  /**
+   * Applies updated settings, reconnecting only when the server changed
+   */
+  public updateConfig(config: OllamaConfig): void {
+    const previous = this.config;
+    this.config = { ...config, baseUrl: previous.baseUrl };
 
-    if (userQuestion) {
-      prompt += `\n\nSpecific question: ${userQuestion}`;
+    if (config.defaultModel !== previous.defaultModel) {
+      this.setDefaultModel(config.defaultModel);
     }
 
-    return this.generateResponse(prompt, undefined, model, systemPrompt);
+    if (config.baseUrl !== previous.baseUrl) {
+      this.updateServerUrl(config.baseUrl);
+    } else if (config.timeout !== previous.timeout) {
+      this.client = this.createClient();
+    }
   }
 
   /**
-   * Generate a general coding assistance response
+   * Gets the context window (in tokens) requested from the model
    */
-  public async getCodingHelp(
-    question: string,
-    context?: string,
-    model?: string,
-  ): Promise<string> {
-    const systemPrompt = `You are a helpful coding assistant. Provide clear, accurate, and practical advice for programming questions. 
-Include code examples when appropriate and explain concepts clearly. Use markdown formatting for better readability.`;
+  public getContextWindow(): number {
+    return this.config.contextWindow;
+  }
 
-    return this.generateResponse(question, context, model, systemPrompt);
+  /**
+   * Gets the context window for a model: the configured num_ctx, capped at
+   * the context length the model was trained with
+   */
+  public async getModelContextWindow(model: string): Promise<number> {
+    const contextLength = await this.getModelContextLength(model);
+    return contextLength
+      ? Math.min(this.config.contextWindow, contextLength)
+      : this.config.contextWindow;
   }
 
   /**
-   * Get code completion (for inline and panel completions)
+   * Get the models currently loaded in memory
    */
-  public async getCompletion(
-    prompt: string,
-    fileReferences: any[],
-    model?: string,
-  ): Promise<string> {
-    // Build context from file references
-    let context = "";
-    if (fileReferences && fileReferences.length > 0) {
-      context = fileReferences
-        .map((ref) => {
-          const content = ref.selectedText || ref.content;
-          return `File: ${ref.fileName}\n\`\`\`${ref.language}\n${content}\n\`\`\``;
-        })
-        .join("\n\n");
+  public async listRunningModels(): Promise<OllamaRunningModel[]> {
+    try {
+      const response = await this.client.get("/api/ps");
+      return response.data?.models ?? [];
+    } catch (error) {
+      console.error("[OllamaService] Error fetching running models:", error);
+      return [];
     }
+  }
+
+  /**
+   * Gets the modelfile, parameters, template and architecture of a model
+   */
+  public async showModel(
+    model: string,
+    timeout?: number,
+  ): Promise<OllamaShowResponse> {
+    const response: AxiosResponse<OllamaShowResponse> = await this.client.post(
+      "/api/show",
+      { model },
+      { timeout },
+    );
+    return response.data ?? {};
+  }
+
+  /**
+   * Downloads a model from the registry, invoking onProgress for every
+   * status line Ollama streams until the pull succeeds
+   */
+  public async pullModel(
+    model: string,
+    onProgress: (progress: OllamaPullProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    // Large layers can take longer than the request timeout to download
+    const response = await this.client.post(
+      "/api/pull",
+      { model, stream: true },
+      { responseType: "stream", signal, timeout: 0 },
+    );
 
-    const systemPrompt = `You are an AI coding assistant. Provide concise, accurate, and helpful code completions or answers to programming questions.
-Focus on writing clean, efficient, and well-documented code. When providing code snippets, ensure they are properly formatted and ready to use.`;
+    await new Promise<void>((resolve, reject) => {
+      const stream = response.data;
+      const decoder = new StringDecoder("utf8");
+      let succeeded = false;
+      let settled = false;
+
+      const onAbort = () => {
+        stream.destroy();
+        finish(new vscode.CancellationError());
+      };
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        if (error) {
+          reject(error);
+        } else if (succeeded) {
+          resolve();
+        } else {
+          reject(new Error(`Pulling ${model} ended before it completed`));
+        }
+      };
+
+      const lineBuffer = StreamUtils.createLineBuffer((line) => {
+        let progress: OllamaPullProgress & { error?: string };
+        try {
+          progress = JSON.parse(line);
+        } catch {
+          console.warn("[OllamaService] Skipping malformed pull status:", line);
+          return;
+        }
+
+        if (progress.error) {
+          stream.destroy();
+          finish(new Error(`Ollama error: ${progress.error}`));
+          return;
+        }
+
+        onProgress(progress);
+        if (progress.status === "success") {
+          succeeded = true;
+          finish();
+        }
+      });
+
+      stream.on("data", (data: Buffer) => lineBuffer.push(decoder.write(data)));
+      stream.on("end", () => {
+        lineBuffer.push(decoder.end());
+        lineBuffer.flush();
+        finish();
+      });
+      stream.on("error", (error: Error) => finish(error));
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener("abort", onAbort);
+      }
+    });
 
-    return this.generateResponse(prompt, context, model, systemPrompt);
+    // A re-pulled model may have a different context length
+    this.contextLengths.clear();
   }
 
   /**
-   * Get connection status
+   * Removes a model and its data from the server
    */
-  public getConnectionStatus(): {
-    connected: boolean;
-    url: string;
-    availableModels: string[];
-  } {
-    return {
-      connected: this.isConnected,
-      url: this.baseUrl,
-      availableModels: this.availableModels,
-    };
+  public async deleteModel(model: string): Promise<void> {
+    await this.client.delete("/api/delete", { data: { model } });
+    this.contextLengths.delete(model);
+    this.availableModels = this.availableModels.filter(
+      (name) => name !== model,
+    );
   }
 
   /**
-   * Set the default model
+   * Loads a model into memory without generating anything, keeping it
+   * loaded for the configured keep_alive
    */
-  public setDefaultModel(model: string): void {
-    if (this.availableModels.includes(model)) {
-      this.defaultModel = model;
-      console.log(`[OllamaService] Default model set to: ${model}`);
-    } else {
+  public async warmModel(model: string, signal?: AbortSignal): Promise<void> {
+    // Loading a large model can take longer than the request timeout
+    await this.client.post(
+      "/api/generate",
+      { model, keep_alive: this.config.keepAlive },
+      { signal, timeout: 0 },
+    );
+  }
+
+  /**
+   * Reads the model's context length from /api/show.
+   * Answers are cached per model; failures are retried on the next call.
+   */
+  private async getModelContextLength(
+    model: string,
+  ): Promise<number | undefined> {
+    if (this.contextLengths.has(model)) {
+      return this.contextLengths.get(model);
+    }
+
+    try {
+      const contextLength = OllamaService.getContextLength(
+        await this.showModel(model, 5000),
+      );
+      this.contextLengths.set(model, contextLength);
+      return contextLength;
+    } catch (error) {
       console.warn(
-        `[OllamaService] Model ${model} not available. Available models:`,
-        this.availableModels,
+        `[OllamaService] Could not read the context length of ${model}:`,
+        error,
       );
+      return undefined;
     }
   }
 
   /**
-   * Update Ollama server URL
+   * Finds the trained context length in an /api/show response
    */
-  public updateServerUrl(url: string): void {
-    this.baseUrl = url;
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: 60000,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-    this.checkConnection();
+  static getContextLength(show: OllamaShowResponse): number | undefined {
+    const modelInfo = show.model_info ?? {};
+    const key = Object.keys(modelInfo).find((name) =>
+      name.endsWith(".context_length"),
+    );
+    return key && typeof modelInfo[key] === "number"
+      ? (modelInfo[key] as number)
+      : undefined;
   }
 }
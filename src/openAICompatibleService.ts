@@ -0,0 +1,423 @@
+/**
+ * OpenAI-compatible Service for AI Code Assistant VS Code Extension
+ *
+ * This service talks to any server exposing the OpenAI chat completions API
+ * (`/v1/chat/completions`), such as the llama.cpp server or vLLM.
+ *
+ * @fileoverview OpenAI-compatible model provider
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import * as vscode from "vscode";
+import { StringDecoder } from "string_decoder";
+import {
+  LLMMessage,
+  LLMModelInfo,
+  OpenAICompatibleConfig,
+  GenerationStats,
+  RequestOptions,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+} from "./types";
+import { StreamUtils } from "./utils";
+import { BaseLLMProvider } from "./llmProvider";
+import {
+  ConnectionRefusedError,
+  ContextOverflowError,
+  LLMError,
+  ModelNotFoundError,
+  ServerError,
+  TimeoutError,
+} from "./errors";
+
+/** Statuses worth retrying: rate limits, overload and gateway errors */
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Chat completion response (streamed chunks use `delta` instead of `message`)
+ */
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { role: string; content: string | null };
+    delta?: { role?: string; content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  /** Token counts, sent by most servers with the last chunk */
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string } | string;
+}
+
+/**
+ * Model provider backed by an OpenAI-compatible server
+ */
+export class OpenAICompatibleService extends BaseLLMProvider {
+  readonly displayName = "OpenAI-compatible";
+
+  private client: AxiosInstance;
+  private config: OpenAICompatibleConfig;
+
+  constructor(
+    config: OpenAICompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  ) {
+    super(config.defaultModel);
+    this.config = { ...config };
+    this.client = this.createClient();
+
+    // Initialize connection
+    this.checkConnection();
+  }
+
+  /**
+   * Creates the HTTP client for the current server URL, key and timeout
+   */
+  private createClient(): AxiosInstance {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    return axios.create({
+      baseURL: this.config.baseUrl.replace(/\/+$/, ""),
+      timeout: this.config.timeout,
+      headers,
+    });
+  }
+
+  /**
+   * Gets the sampling parameters sent with every chat request
+   */
+  private getSamplingOptions(): Record<string, number> {
+    return {
+      temperature: this.config.temperature,
+      top_p: this.config.topP,
+    };
+  }
+
+  /**
+   * Gets the server URL
+   */
+  protected getServerUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  /**
+   * Check if the server is running and accessible
+   */
+  public async checkConnection(): Promise<boolean> {
+    try {
+      await this.fetchModels(5000);
+      this.setConnected(true);
+      return true;
+    } catch (error) {
+      // The connection monitor checks periodically; log only the change
+      if (this.setConnected(false)) {
+        console.error(
+          "[OpenAICompatibleService] Failed to connect to server:",
+          error,
+        );
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Get the list of available models
+   */
+  public async getAvailableModels(): Promise<string[]> {
+    try {
+      return await this.fetchModels();
+    } catch (error) {
+      console.error("[OpenAICompatibleService] Error fetching models:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the served models (the API reports names only)
+   */
+  public async listModels(): Promise<LLMModelInfo[]> {
+    const models = await this.getAvailableModels();
+    return models.map((name) => ({ name }));
+  }
+
+  /**
+   * Reads the model list from `/models`
+   */
+  private async fetchModels(timeout?: number): Promise<string[]> {
+    const response = await this.client.get("/models", { timeout });
+    const models: { id: string }[] = response.data?.data ?? [];
+    this.setAvailableModels(models.map((model) => model.id));
+    return this.availableModels;
+  }
+
+  /**
+   * Classifies a failed chat completion request into a typed error
+   */
+  protected classifyRequestError(error: any, modelToUse: string): Error {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    if (axios.isCancel(error) || error instanceof vscode.CancellationError) {
+      return new vscode.CancellationError();
+    }
+
+    console.error("[OpenAICompatibleService] Error generating response:", error);
+
+    const status: number | undefined = error.response?.status;
+    const serverError = this.getErrorMessage(error.response?.data);
+
+    if (error.code === "ECONNREFUSED") {
+      this.setConnected(false);
+      return new ConnectionRefusedError(this.displayName, this.config.baseUrl);
+    } else if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError();
+    } else if (error.code === "ECONNRESET") {
+      return new ServerError(
+        "The connection to the server was interrupted",
+        undefined,
+        true,
+      );
+    } else if (status === 404) {
+      return new ModelNotFoundError(modelToUse, this.availableModels);
+    } else if (serverError && ContextOverflowError.matches(serverError)) {
+      return new ContextOverflowError(serverError);
+    } else if (status !== undefined) {
+      return new ServerError(
+        `Server error: ${serverError ?? error.message}`,
+        status,
+        RETRYABLE_STATUSES.includes(status),
+      );
+    } else {
+      return new LLMError(`Failed to generate response: ${error.message}`);
+    }
+  }
+
+  /**
+   * Extracts the error message from an OpenAI-style error body
+   */
+  private getErrorMessage(data: any): string | undefined {
+    const error = data?.error;
+    if (!error) {
+      return undefined;
+    }
+    return typeof error === "string" ? error : error.message;
+  }
+
+  /**
+   * Builds generation stats from the reported token usage and the time the
+   * request took. The speed is measured from the first streamed token when
+   * known, since the server does not report its own timings.
+   */
+  private toGenerationStats(
+    model: string,
+    usage: ChatCompletionResponse["usage"],
+    startTime: number,
+    firstTokenTime: number = startTime,
+  ): GenerationStats {
+    const endTime = Date.now();
+    const completionTokens = usage?.completion_tokens;
+    const generationSeconds = (endTime - firstTokenTime) / 1000;
+
+    return {
+      model,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens,
+      tokensPerSecond:
+        completionTokens !== undefined && generationSeconds > 0
+          ? completionTokens / generationSeconds
+          : undefined,
+      totalDuration: endTime - startTime,
+    };
+  }
+
+  /**
+   * Makes a non-streaming chat completion request
+   */
+  protected async makeChatRequest(
+    modelToUse: string,
+    messages: LLMMessage[],
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const startTime = Date.now();
+    const response = await this.client.post<ChatCompletionResponse>(
+      "/chat/completions",
+      {
+        model: modelToUse,
+        messages,
+        stream: false,
+        ...this.getSamplingOptions(),
+      },
+      { signal: options.signal },
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content === "string") {
+      options.onStats?.(
+        this.toGenerationStats(modelToUse, response.data.usage, startTime),
+      );
+      return content.trim();
+    } else {
+      throw new ServerError("Invalid response format from server");
+    }
+  }
+
+  /**
+   * Makes a streaming chat completion request, invoking onToken for every
+   * delta. The server sends `data: {...}` events until `data: [DONE]`.
+   */
+  protected async makeStreamRequest(
+    modelToUse: string,
+    messages: LLMMessage[],
+    onToken: (delta: string) => void,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const { signal } = options;
+    const startTime = Date.now();
+    let response: AxiosResponse;
+    try {
+      response = await this.client.post(
+        "/chat/completions",
+        {
+          model: modelToUse,
+          messages,
+          stream: true,
+          // Without this OpenAI and vLLM send no usage in streamed replies
+          stream_options: { include_usage: true },
+          ...this.getSamplingOptions(),
+        },
+        { responseType: "stream", signal },
+      );
+    } catch (error) {
+      // Error replies are streamed too; read them to classify the error
+      await StreamUtils.readErrorBody(error);
+      throw error;
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const stream = response.data;
+      const decoder = new StringDecoder("utf8");
+      let content = "";
+      let usage: ChatCompletionResponse["usage"];
+      let firstTokenTime: number | undefined;
+      let settled = false;
+
+      const onAbort = () => {
+        stream.destroy();
+        finish(new vscode.CancellationError());
+      };
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          options.onStats?.(
+            this.toGenerationStats(
+              modelToUse,
+              usage,
+              startTime,
+              firstTokenTime,
+            ),
+          );
+          resolve(content.trim());
+        }
+      };
+
+      const lineBuffer = StreamUtils.createLineBuffer((line) => {
+        // Skip SSE comments, event names and keep-alives
+        if (!line.startsWith("data:")) {
+          return;
+        }
+
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") {
+          finish();
+          return;
+        }
+
+        let chunk: ChatCompletionResponse;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          console.warn(
+            "[OpenAICompatibleService] Skipping malformed stream chunk:",
+            data,
+          );
+          return;
+        }
+
+        const serverError = this.getErrorMessage(chunk);
+        if (serverError) {
+          stream.destroy();
+          finish(
+            ContextOverflowError.matches(serverError)
+              ? new ContextOverflowError(serverError)
+              : new ServerError(`Server error: ${serverError}`),
+          );
+          return;
+        }
+
+        // The usage chunk comes last, with no choices; servers ignoring
+        // stream_options never send it and the stats go without counts
+        usage = chunk.usage ?? usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          firstTokenTime ??= Date.now();
+          content += delta;
+          onToken(delta);
+        }
+      });
+
+      stream.on("data", (data: Buffer) => lineBuffer.push(decoder.write(data)));
+      stream.on("end", () => {
+        lineBuffer.push(decoder.end());
+        lineBuffer.flush();
+        finish();
+      });
+      stream.on("error", (error: Error) => finish(error));
+
+      // Stop reading as soon as the caller cancels mid-stream
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener("abort", onAbort);
+      }
+    });
+  }
+
+  /**
+   * Applies updated settings
+   */
+  public updateConfig(config: OpenAICompatibleConfig): void {
+    const previous = this.config;
+    this.config = { ...config };
+
+    if (config.defaultModel !== previous.defaultModel) {
+      this.setDefaultModel(config.defaultModel);
+    }
+
+    if (
+      config.baseUrl !== previous.baseUrl ||
+      config.apiKey !== previous.apiKey ||
+      config.timeout !== previous.timeout
+    ) {
+      this.client = this.createClient();
+      this.checkConnection();
+    }
+  }
+
+  /**
+   * Gets the context window (in tokens) of the model
+   */
+  public getContextWindow(): number {
+    return this.config.contextWindow;
+  }
+}
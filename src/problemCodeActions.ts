@@ -0,0 +1,68 @@
+/**
+ * Problem Code Actions for AI Code Assistant VS Code Extension
+ *
+ * This module offers an "Ask AI to fix" quick fix on every diagnostic.
+ * The quick fix runs FIX_PROBLEM_COMMAND, which sends the problem and the
+ * code around it to the chat.
+ *
+ * @fileoverview "Ask AI to fix" quick fixes for diagnostics
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { StringUtils } from "./utils";
+
+/**
+ * Command run by the quick fix, with the document URI and the diagnostic
+ */
+export const FIX_PROBLEM_COMMAND = "ai-assistant.fixProblem";
+
+/**
+ * Provides "Ask AI to fix" quick fixes for diagnostics
+ */
+export class ProblemCodeActions
+  implements vscode.CodeActionProvider, vscode.Disposable
+{
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private registration: vscode.Disposable;
+
+  constructor() {
+    this.registration = vscode.languages.registerCodeActionsProvider(
+      [{ scheme: "file" }, { scheme: "untitled" }],
+      this,
+      { providedCodeActionKinds: ProblemCodeActions.providedCodeActionKinds },
+    );
+  }
+
+  /**
+   * Offers one quick fix per diagnostic under the cursor
+   */
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    return context.diagnostics.map((diagnostic) => {
+      const action = new vscode.CodeAction(
+        `Ask AI to fix: ${StringUtils.truncate(diagnostic.message, 60)}`,
+        vscode.CodeActionKind.QuickFix,
+      );
+      action.diagnostics = [diagnostic];
+      action.command = {
+        command: FIX_PROBLEM_COMMAND,
+        title: "Ask AI to fix",
+        arguments: [document.uri, diagnostic],
+      };
+      return action;
+    });
+  }
+
+  /**
+   * Unregisters the code action provider
+   */
+  dispose(): void {
+    this.registration.dispose();
+  }
+}
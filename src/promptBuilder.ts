@@ -0,0 +1,296 @@
+/**
+ * Prompt Builder for AI Code Assistant VS Code Extension
+ *
+ * This module turns the chat history into the message list sent to the model,
+ * including the system prompt and file attachments, trimmed to fit the
+ * model's context window.
+ *
+ * @fileoverview Conversation prompt construction
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import { ChatMessage, FileReference, LLMMessage } from "./types";
+import { FileUtils, TokenUtils } from "./utils";
+
+/**
+ * Default context window (in tokens) when the model's size is unknown
+ */
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+/**
+ * Tokens kept free in the context window for the model's reply
+ */
+const RESPONSE_TOKEN_RESERVE = 1024;
+
+/**
+ * Rough number of characters per token, used to size partial files
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Smallest amount of room (in tokens) worth filling with part of a file
+ */
+const MIN_PARTIAL_FILE_TOKENS = 256;
+
+/**
+ * Estimated token use of a conversation against the context window
+ */
+export interface ContextUsage {
+  contextWindow: number;
+  /** Tokens available for the prompt, after the reserve for the reply */
+  budget: number;
+  systemTokens: number;
+  historyTokens: number;
+  attachmentTokens: number;
+}
+
+/**
+ * Builds multi-turn conversations for the chat model
+ */
+export class PromptBuilder {
+  private contextWindow: number;
+
+  constructor(contextWindow: number = DEFAULT_CONTEXT_WINDOW) {
+    this.contextWindow = contextWindow;
+  }
+
+  /**
+   * Sets the model context window used for trimming
+   */
+  setContextWindow(contextWindow: number): void {
+    this.contextWindow = contextWindow;
+  }
+
+  /**
+   * Converts the chat history into model messages.
+   *
+   * The system prompt and the latest user message are always kept, with as
+   * many of its attachments as fit; older turns are added newest-first until
+   * the token budget is exhausted, dropping their attachments if needed.
+   */
+  buildConversation(
+    history: ChatMessage[],
+    systemPrompt: string,
+  ): LLMMessage[] {
+    const turns = history.filter((message) => this.isConversationTurn(message));
+
+    const systemMessage: LLMMessage = {
+      role: "system",
+      content: systemPrompt,
+    };
+
+    if (turns.length === 0) {
+      return [systemMessage];
+    }
+
+    const latestTurn = turns[turns.length - 1];
+    let budget =
+      this.getTokenBudget() - this.estimateTokens(systemMessage.content);
+
+    const latest = this.toLLMMessage(
+      latestTurn,
+      budget - this.estimateTokens(latestTurn.content),
+    );
+    budget -= this.estimateTokens(latest.content);
+
+    const included: LLMMessage[] = [latest];
+    for (let i = turns.length - 2; i >= 0; i--) {
+      let message = this.toLLMMessage(turns[i]);
+      let cost = this.estimateTokens(message.content);
+
+      // Keep the question even when its attachments no longer fit
+      if (cost > budget && turns[i].fileReferences?.length) {
+        message = this.toLLMMessage(turns[i], 0);
+        cost = this.estimateTokens(message.content);
+      }
+
+      if (cost > budget) {
+        break;
+      }
+      budget -= cost;
+      included.unshift(message);
+    }
+
+    // Never start the history with an orphaned assistant reply
+    while (included.length > 1 && included[0].role === "assistant") {
+      included.shift();
+    }
+
+    return [systemMessage, ...included];
+  }
+
+  /**
+   * Estimates the tokens the full, untrimmed conversation would take,
+   * including files staged for the next message
+   */
+  measureContext(
+    history: ChatMessage[],
+    systemPrompt: string,
+    stagedFiles: FileReference[] = [],
+  ): ContextUsage {
+    const turns = history.filter((message) => this.isConversationTurn(message));
+    const attachments = [
+      ...turns.flatMap((message) =>
+        message.sender === "user" ? message.fileReferences ?? [] : [],
+      ),
+      ...stagedFiles,
+    ];
+
+    return {
+      contextWindow: this.contextWindow,
+      budget: this.getTokenBudget(),
+      systemTokens: this.estimateTokens(systemPrompt),
+      historyTokens: turns.reduce(
+        (total, message) => total + this.estimateTokens(message.content),
+        0,
+      ),
+      attachmentTokens: attachments.reduce(
+        (total, fileReference) =>
+          total + this.estimateTokens(this.createFileSection(fileReference)),
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Creates the prompt text for a message with attachments.
+   *
+   * Files are included in order while they fit the token budget; the first
+   * file that does not fit is cut short if enough room is left, and the rest
+   * are listed by name only.
+   */
+  createFilePrompt(
+    userMessage: string,
+    fileReferences: FileReference[],
+    tokenBudget: number = Infinity,
+  ): string {
+    const sections: string[] = [];
+    const omitted: FileReference[] = [];
+    let remaining = tokenBudget;
+
+    for (const fileReference of fileReferences) {
+      const section = this.createFileSection(fileReference);
+      const cost = this.estimateTokens(section);
+
+      if (cost <= remaining) {
+        sections.push(section);
+        remaining -= cost;
+        continue;
+      }
+
+      const partial = this.createPartialFileSection(fileReference, remaining);
+      if (partial) {
+        sections.push(partial);
+        remaining = 0;
+        continue;
+      }
+
+      omitted.push(fileReference);
+    }
+
+    if (omitted.length > 0) {
+      sections.push(
+        `Files omitted to fit the context window: ${omitted
+          .map((file) => file.fileName)
+          .join(", ")}
+
+`,
+      );
+    }
+
+    return `${sections.join("")}User question: ${userMessage}`;
+  }
+
+  /**
+   * Formats a single attached file for the prompt
+   */
+  private createFileSection(fileReference: FileReference): string {
+    return `File: ${fileReference.fileName} (${fileReference.language})
+Lines: ${fileReference.lineCount}
+Size: ${FileUtils.formatFileSize(fileReference.size || 0)}${fileReference.truncated ? "\nNote: content truncated" : ""}
+
+Content:
+\`\`\`${fileReference.language}
+${fileReference.content}
+\`\`\`
+
+`;
+  }
+
+  /**
+   * Formats the beginning of a file that does not fit in full,
+   * or returns undefined if too little room is left to be useful
+   */
+  private createPartialFileSection(
+    fileReference: FileReference,
+    tokenBudget: number,
+  ): string | undefined {
+    if (tokenBudget < MIN_PARTIAL_FILE_TOKENS) {
+      return undefined;
+    }
+
+    const emptySection = this.createFileSection({
+      ...fileReference,
+      content: "",
+      truncated: true,
+    });
+    const contentChars =
+      (tokenBudget - this.estimateTokens(emptySection)) * CHARS_PER_TOKEN;
+
+    return this.createFileSection({
+      ...fileReference,
+      content: fileReference.content.substring(0, contentChars),
+      truncated: true,
+    });
+  }
+
+  /**
+   * Estimates the number of tokens in a piece of text
+   */
+  estimateTokens(text: string): number {
+    return TokenUtils.estimateTokens(text);
+  }
+
+  /**
+   * Gets the number of tokens available for the prompt
+   */
+  private getTokenBudget(): number {
+    return Math.max(
+      this.contextWindow - RESPONSE_TOKEN_RESERVE,
+      this.contextWindow / 2,
+    );
+  }
+
+  /**
+   * Checks whether a chat message should be sent to the model
+   */
+  private isConversationTurn(message: ChatMessage): boolean {
+    return !message.isError && message.content.trim().length > 0;
+  }
+
+  /**
+   * Maps a chat message to the model message format, limiting attachments
+   * to the given number of tokens
+   */
+  private toLLMMessage(
+    message: ChatMessage,
+    attachmentBudget: number = Infinity,
+  ): LLMMessage {
+    if (message.sender === "user" && message.fileReferences?.length) {
+      return {
+        role: "user",
+        content: this.createFilePrompt(
+          message.content,
+          message.fileReferences,
+          attachmentBudget,
+        ),
+      };
+    }
+
+    return {
+      role: message.sender,
+      content: message.content,
+    };
+  }
+}
@@ -14,9 +14,13 @@ import {
   DropZoneItem,
   ChatItem,
   ChatMessage,
+  ModelItem,
+  ModelStatsSummary,
   DRAG_DROP_MIME_TYPES,
 } from "./types";
-import { FileUtils, ErrorUtils } from "./utils";
+import { FileUtils, ErrorUtils, StringUtils } from "./utils";
+import { ChatSessionManager } from "./chatSessionManager";
+import { ModelManager } from "./modelManager";
 
 /**
  * Drop Zone Provider for handling drag-and-drop operations
@@ -369,7 +373,8 @@ export class FileTreeDataProvider
 }
 
 /**
- * Chat TreeDataProvider for managing chat messages and files in tree view
+ * Chat History TreeDataProvider listing chat sessions with their messages
+ * and attached files
  */
 export class ChatTreeDataProvider implements vscode.TreeDataProvider<ChatItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<
@@ -379,21 +384,14 @@ export class ChatTreeDataProvider implements vscode.TreeDataProvider<ChatItem> {
     ChatItem | undefined | null | void
   > = this._onDidChangeTreeData.event;
 
-  private messages: ChatMessage[] = [];
-
-  /**
-   * Updates the messages and refreshes the tree
-   */
-  updateMessages(messages: ChatMessage[]): void {
-    this.messages = messages;
-    this._onDidChangeTreeData.fire();
+  constructor(private readonly sessionManager: ChatSessionManager) {
+    this.sessionManager.onDidChangeSessions(() => this.refresh());
   }
 
   /**
-   * Clears all messages
+   * Refreshes the tree
    */
-  clearMessages(): void {
-    this.messages = [];
+  refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
@@ -401,7 +399,34 @@ export class ChatTreeDataProvider implements vscode.TreeDataProvider<ChatItem> {
     const item = new vscode.TreeItem(element.label, element.collapsibleState);
     item.id = element.id;
 
-    if (element.type === "message") {
+    if (element.type === "session" && element.session) {
+      const session = element.session;
+      const isActive = this.sessionManager.isActiveSession(session.id);
+      item.iconPath = new vscode.ThemeIcon(
+        isActive ? "comment-discussion" : "comment",
+      );
+      item.description = isActive
+        ? "Active"
+        : session.updatedAt.toLocaleDateString();
+      item.tooltip = [
+        session.title,
+        `${session.messages.length} message(s)`,
+        session.model ? `Model: ${session.model}` : undefined,
+        `Created: ${session.createdAt.toLocaleString()}`,
+        `Updated: ${session.updatedAt.toLocaleString()}`,
+        ...ChatSessionManager.summarizeStats(session).map((summary) =>
+          this.formatModelStats(summary),
+        ),
+      ]
+        .filter(Boolean)
+        .join("\n");
+      item.contextValue = "chatSession";
+      item.command = {
+        command: "ai-assistant.openSession",
+        title: "Open Chat Session",
+        arguments: [session.id],
+      };
+    } else if (element.type === "message") {
       item.iconPath =
         element.message?.sender === "user"
           ? new vscode.ThemeIcon("account")
@@ -411,14 +436,17 @@ export class ChatTreeDataProvider implements vscode.TreeDataProvider<ChatItem> {
     } else if (element.type === "file") {
       item.iconPath = new vscode.ThemeIcon("file");
       item.contextValue = "chatFile";
-      item.resourceUri = element.message?.fileReference
-        ? vscode.Uri.file(element.message.fileReference.filePath)
-        : undefined;
-      item.command = {
-        command: "vscode.open",
-        title: "Open File",
-        arguments: [item.resourceUri],
-      };
+
+      // Problems, the workspace listing and diffs have no file to open
+      const filePath = element.fileReference?.filePath;
+      if (filePath && FileUtils.isFileOnDisk(filePath)) {
+        item.resourceUri = vscode.Uri.file(filePath);
+        item.command = {
+          command: "vscode.open",
+          title: "Open File",
+          arguments: [item.resourceUri],
+        };
+      }
     }
 
     return item;
@@ -426,35 +454,154 @@ export class ChatTreeDataProvider implements vscode.TreeDataProvider<ChatItem> {
 
   getChildren(element?: ChatItem): Thenable<ChatItem[]> {
     if (!element) {
-      const items: ChatItem[] = [];
-
-      this.messages.forEach((message) => {
-        const messageItem: ChatItem = {
-          id: `message-${message.id}`,
-          label: `${message.sender}: ${message.content.substring(0, 50)}${message.content.length > 50 ? "..." : ""}`,
-          type: "message",
-          message: message,
-          collapsibleState: message.fileReference
-            ? vscode.TreeItemCollapsibleState.Expanded
-            : vscode.TreeItemCollapsibleState.None,
-        };
-        items.push(messageItem);
-
-        if (message.fileReference) {
-          const fileItem: ChatItem = {
-            id: `file-${message.id}`,
-            label: `📎 ${message.fileReference.fileName}`,
-            type: "file",
-            message: message,
-            collapsibleState: vscode.TreeItemCollapsibleState.None,
-          };
-          items.push(fileItem);
-        }
-      });
+      const sessions = this.sessionManager
+        .getSessions()
+        .filter(
+          (session) =>
+            session.messages.length > 0 ||
+            this.sessionManager.isActiveSession(session.id),
+        );
 
-      return Promise.resolve(items);
+      return Promise.resolve(
+        sessions.map((session) => ({
+          id: `session-${session.id}`,
+          label: session.title,
+          type: "session",
+          session,
+          collapsibleState:
+            session.messages.length > 0
+              ? vscode.TreeItemCollapsibleState.Collapsed
+              : vscode.TreeItemCollapsibleState.None,
+        })),
+      );
+    }
+
+    if (element.type === "session" && element.session) {
+      return Promise.resolve(
+        element.session.messages
+          .filter((message) => message.content.trim().length > 0)
+          .map((message) => this.createMessageItem(message)),
+      );
+    }
+
+    if (element.type === "message" && element.message?.fileReferences) {
+      const message = element.message;
+      return Promise.resolve(
+        (message.fileReferences ?? []).map((fileReference, index) => ({
+          id: `file-${message.id}-${index}`,
+          label: `📎 ${fileReference.fileName}`,
+          type: "file",
+          message,
+          fileReference,
+          collapsibleState: vscode.TreeItemCollapsibleState.None,
+        })),
+      );
     }
 
     return Promise.resolve([]);
   }
+
+  /**
+   * Creates the tree item for a single chat message
+   */
+  private createMessageItem(message: ChatMessage): ChatItem {
+    return {
+      id: `message-${message.id}`,
+      label: `${message.sender}: ${StringUtils.truncate(message.content, 50)}`,
+      type: "message",
+      message: message,
+      collapsibleState: message.fileReferences?.length
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+    };
+  }
+
+  /**
+   * Formats one model's generation stats for the session tooltip
+   */
+  private formatModelStats(summary: ModelStatsSummary): string {
+    const parts = [
+      `${summary.replies} repl${summary.replies === 1 ? "y" : "ies"}`,
+      `${summary.promptTokens} in / ${summary.completionTokens} out tokens`,
+    ];
+    if (summary.tokensPerSecond !== undefined) {
+      parts.push(`${summary.tokensPerSecond.toFixed(1)} tok/s`);
+    }
+    if (summary.loadDuration !== undefined) {
+      parts.push(`${(summary.loadDuration / 1000).toFixed(1)} s load`);
+    }
+    return `${summary.model}: ${parts.join(" · ")}`;
+  }
+}
+
+/**
+ * Models TreeDataProvider listing the models installed on the Ollama server
+ */
+export class ModelTreeDataProvider
+  implements vscode.TreeDataProvider<ModelItem>
+{
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    ModelItem | undefined | null | void
+  > = new vscode.EventEmitter<ModelItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    ModelItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  constructor(private readonly modelManager: ModelManager) {
+    this.modelManager.onDidChangeModels(() => this.refresh());
+  }
+
+  /**
+   * Refreshes the tree
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: ModelItem): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      element.name,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.id = element.name;
+    item.iconPath = new vscode.ThemeIcon(element.loaded ? "flame" : "package");
+    item.description = [
+      element.parameterSize,
+      element.quantization,
+      element.size ? FileUtils.formatFileSize(element.size) : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.tooltip = [
+      element.name,
+      element.family ? `Family: ${element.family}` : undefined,
+      element.parameterSize
+        ? `Parameters: ${element.parameterSize}`
+        : undefined,
+      element.quantization
+        ? `Quantization: ${element.quantization}`
+        : undefined,
+      element.size
+        ? `Size: ${FileUtils.formatFileSize(element.size)}`
+        : undefined,
+      element.expiresAt
+        ? `Loaded until ${element.expiresAt.toLocaleTimeString()}`
+        : element.loaded
+          ? "Loaded in memory"
+          : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    item.contextValue = "ollamaModel";
+    item.command = {
+      command: "ai-assistant.showModel",
+      title: "Show Model Details",
+      arguments: [element],
+    };
+    return item;
+  }
+
+  async getChildren(element?: ModelItem): Promise<ModelItem[]> {
+    return element ? [] : this.modelManager.getModels();
+  }
 }
@@ -0,0 +1,193 @@
+/**
+ * Request Scheduler for AI Code Assistant VS Code Extension
+ *
+ * This module queues the requests sent to the model server. A local server
+ * answers few requests at once, so chat requests go first, inline chat
+ * next and background completions last, each within its own limit, and a
+ * completion that was typed over is dropped instead of being answered.
+ *
+ * @fileoverview Priority queue for model requests
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as vscode from "vscode";
+import { RequestPriority, RequestQueueStatus } from "./types";
+
+/** Priorities from highest to lowest */
+const PRIORITIES: RequestPriority[] = ["interactive", "inline", "background"];
+
+/** Requests sent to the server at once, over all priorities */
+const MAX_CONCURRENT_REQUESTS = 2;
+
+/** Requests of each priority sent to the server at once */
+const MAX_CONCURRENT_BY_PRIORITY: Record<RequestPriority, number> = {
+  interactive: 2,
+  inline: 1,
+  background: 1,
+};
+
+/**
+ * Options of a scheduled request
+ */
+export interface ScheduleOptions {
+  /** Defaults to "interactive" */
+  priority?: RequestPriority;
+  /** Cancels the request, whether it is queued or running */
+  signal?: AbortSignal;
+  /**
+   * A newer request with the same key drops this one. Interactive requests
+   * are only dropped while queued; others are also stopped while running.
+   */
+  supersedeKey?: string;
+}
+
+/**
+ * A request waiting for, or holding, a slot
+ */
+interface ScheduledRequest {
+  priority: RequestPriority;
+  supersedeKey?: string;
+  controller: AbortController;
+  /** Caller's signal, and the listener cancelling the request with it */
+  signal?: AbortSignal;
+  onAbort: () => void;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs model requests by priority within concurrency limits
+ */
+export class RequestScheduler {
+  private queued: ScheduledRequest[] = [];
+  private running: ScheduledRequest[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires when a request is queued, started or finished */
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  /**
+   * Runs a request once a slot of its priority is free. The request gets
+   * a signal that fires when it is cancelled or superseded.
+   */
+  schedule<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    const { signal, supersedeKey } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+    if (supersedeKey) {
+      this.dropSuperseded(supersedeKey);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: ScheduledRequest = {
+        priority: options.priority ?? "interactive",
+        supersedeKey,
+        controller: new AbortController(),
+        signal,
+        onAbort: () => this.cancel(request),
+        reject,
+        start: () => {
+          run(request.controller.signal)
+            .then(resolve, reject)
+            .finally(() => this.finish(request));
+        },
+      };
+      signal?.addEventListener("abort", request.onAbort);
+
+      this.queued.push(request);
+      this.startQueued();
+      this._onDidChange.fire();
+    });
+  }
+
+  /**
+   * Gets the number of running and waiting requests
+   */
+  getStatus(): RequestQueueStatus {
+    return { running: this.running.length, queued: this.queued.length };
+  }
+
+  /**
+   * Starts queued requests, highest priority first, while slots are free
+   */
+  private startQueued(): void {
+    for (const priority of PRIORITIES) {
+      for (const request of this.queued.filter(
+        (queued) => queued.priority === priority,
+      )) {
+        if (
+          this.running.length >= MAX_CONCURRENT_REQUESTS ||
+          this.countRunning(priority) >= MAX_CONCURRENT_BY_PRIORITY[priority]
+        ) {
+          break;
+        }
+
+        this.queued.splice(this.queued.indexOf(request), 1);
+        this.running.push(request);
+        request.start();
+      }
+    }
+  }
+
+  /**
+   * Counts the running requests of a priority
+   */
+  private countRunning(priority: RequestPriority): number {
+    return this.running.filter((request) => request.priority === priority)
+      .length;
+  }
+
+  /**
+   * Frees the slot of a finished request
+   */
+  private finish(request: ScheduledRequest): void {
+    this.detach(request);
+    this.running.splice(this.running.indexOf(request), 1);
+    this.startQueued();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Drops a queued request, or stops a running one
+   */
+  private cancel(request: ScheduledRequest): void {
+    const index = this.queued.indexOf(request);
+    if (index >= 0) {
+      this.queued.splice(index, 1);
+      this.detach(request);
+      request.reject(new vscode.CancellationError());
+      this._onDidChange.fire();
+    } else {
+      request.controller.abort();
+    }
+  }
+
+  /**
+   * Stops listening to the caller's signal once a request has settled
+   */
+  private detach(request: ScheduledRequest): void {
+    request.signal?.removeEventListener("abort", request.onAbort);
+  }
+
+  /**
+   * Drops the requests a newer request with the same key replaces
+   */
+  private dropSuperseded(supersedeKey: string): void {
+    const superseded = [...this.queued, ...this.running].filter(
+      (request) =>
+        request.supersedeKey === supersedeKey &&
+        (this.queued.includes(request) || request.priority !== "interactive"),
+    );
+    if (superseded.length > 0) {
+      console.log(
+        `[RequestScheduler] Dropping ${superseded.length} superseded "${supersedeKey}" request(s)`,
+      );
+    }
+    superseded.forEach((request) => this.cancel(request));
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Slash Commands for AI Code Assistant VS Code Extension
+ *
+ * This module defines the commands that can be typed at the start of a chat
+ * message (e.g. `/fix`), each with its own system prompt and code context.
+ *
+ * @fileoverview Chat slash command registry
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import { CODING_HELP_SYSTEM_PROMPT } from "./llmProvider";
+
+/**
+ * Code a command works on:
+ * - "selection": the editor selection, else the attached files, else the active file
+ * - "attachments": the attached files, else the selection or active file
+ * - "none": only what the user typed
+ */
+export type SlashCommandContext = "selection" | "attachments" | "none";
+
+/**
+ * How a command is answered:
+ * - "chat": a streamed chat reply with the command's system prompt
+ * - "review": a code review of each file via LLMProvider.analyzeCode
+ * - "help": a local listing of the commands, without calling the model
+ */
+export type SlashCommandKind = "chat" | "review" | "help";
+
+/**
+ * A command typed at the start of a chat message
+ */
+export interface SlashCommand {
+  /** Name typed after the slash */
+  name: string;
+  /** One-line summary shown in autocomplete and /help */
+  description: string;
+  kind: SlashCommandKind;
+  context: SlashCommandContext;
+  /** System prompt for "chat" commands */
+  systemPrompt?: string;
+  /** Request sent to the model when nothing follows the command */
+  defaultPrompt: string;
+}
+
+/**
+ * A parsed command and the text that followed it
+ */
+export interface SlashCommandInvocation {
+  command: SlashCommand;
+  args: string;
+}
+
+/**
+ * Commands available in every chat
+ */
+export const BUILT_IN_SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: "explain",
+    description: "Explain how the selected code works",
+    kind: "chat",
+    context: "selection",
+    systemPrompt: `You are an expert programmer explaining code to a colleague.
+Describe what the code does, walk through the important parts step by step and point out anything surprising. Use markdown formatting for better readability.`,
+    defaultPrompt: "Explain how this code works.",
+  },
+  {
+    name: "fix",
+    description: "Find and fix bugs in the selected code",
+    kind: "chat",
+    context: "selection",
+    systemPrompt: `You are an expert debugger. Find the bugs in the provided code, explain each one briefly and return the corrected code in a single fenced code block.
+Keep the code's structure and style; change only what is needed.`,
+    defaultPrompt: "Find and fix the bugs in this code.",
+  },
+  {
+    name: "tests",
+    description: "Write unit tests for the selected code",
+    kind: "chat",
+    context: "selection",
+    systemPrompt: `You are an expert in software testing. Write focused unit tests for the provided code using the testing framework most common for its language, unless the user names one.
+Cover normal cases, edge cases and error handling. Return the tests in fenced code blocks.`,
+    defaultPrompt: "Write unit tests for this code.",
+  },
+  {
+    name: "doc",
+    description: "Add documentation comments to the selected code",
+    kind: "chat",
+    context: "selection",
+    systemPrompt: `You are an expert technical writer. Add documentation comments to the provided code in the idiomatic style for its language (JSDoc, docstrings, ...).
+Return the complete documented code in a single fenced code block without changing its behavior.`,
+    defaultPrompt: "Add documentation comments to this code.",
+  },
+  {
+    name: "review",
+    description: "Review the attached files",
+    kind: "review",
+    context: "attachments",
+    defaultPrompt: "",
+  },
+  {
+    name: "help",
+    description: "List the available commands",
+    kind: "help",
+    context: "none",
+    defaultPrompt: "",
+  },
+];
+
+/**
+ * Looks up and expands slash commands
+ */
+export class SlashCommandRegistry {
+  private commands: Map<string, SlashCommand> = new Map();
+
+  constructor(commands: SlashCommand[] = BUILT_IN_SLASH_COMMANDS) {
+    commands.forEach((command) => this.register(command));
+  }
+
+  /**
+   * Adds a command, replacing any command with the same name
+   */
+  register(command: SlashCommand): void {
+    this.commands.set(command.name, command);
+  }
+
+  /**
+   * Gets all commands in registration order
+   */
+  getAll(): SlashCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Parses a chat message starting with a known command.
+   * Returns undefined for plain messages and unknown commands.
+   */
+  parse(text: string): SlashCommandInvocation | undefined {
+    const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+    const command = match && this.commands.get(match[1].toLowerCase());
+    if (!command) {
+      return undefined;
+    }
+
+    return { command, args: (match[2] ?? "").trim() };
+  }
+
+  /**
+   * Gets the system prompt for a message
+   */
+  getSystemPrompt(invocation?: SlashCommandInvocation): string {
+    return invocation?.command.systemPrompt ?? CODING_HELP_SYSTEM_PROMPT;
+  }
+
+  /**
+   * Replaces a leading command with the request it stands for, so the
+   * model sees "/fix off by one" as "Find and fix ...: off by one"
+   */
+  expand(text: string): string {
+    const invocation = this.parse(text);
+    if (!invocation || !invocation.command.defaultPrompt) {
+      return text;
+    }
+
+    const { command, args } = invocation;
+    return args ? `${command.defaultPrompt}\n\n${args}` : command.defaultPrompt;
+  }
+
+  /**
+   * Builds the /help reply
+   */
+  createHelpText(): string {
+    const rows = this.getAll().map(
+      (command) => `| \`/${command.name}\` | ${command.description} |`,
+    );
+
+    return [
+      "Start a message with a command to use a specialised prompt:",
+      "",
+      "| Command | Description |",
+      "| --- | --- |",
+      ...rows,
+      "",
+      "Commands that work on code use the editor selection or the attached files. Text after the command is passed along, e.g. `/tests use vitest`.",
+    ].join("\n");
+  }
+}
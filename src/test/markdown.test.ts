@@ -0,0 +1,67 @@
+/**
+ * Markdown rendering tests for AI Code Assistant VS Code Extension
+ *
+ * @fileoverview Hostile Markdown rendered for the chat webview
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import "./webviewGlobals";
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { renderMarkdown } from "../webview/markdown";
+
+describe("renderMarkdown", () => {
+  it("shows raw HTML as text", () => {
+    const html = renderMarkdown("<img src=x onerror=alert(1)>");
+    assert.doesNotMatch(html, /<img/);
+    assert.match(html, /&lt;img src=x onerror=alert\(1\)&gt;/);
+  });
+
+  it("shows HTML in inline code as text", () => {
+    assert.equal(
+      renderMarkdown("`<img src=x onerror=alert(1)>`").trim(),
+      "<p><code>&lt;img src=x onerror=alert(1)&gt;</code></p>",
+    );
+  });
+
+  it("links to images instead of loading them", () => {
+    assert.equal(
+      renderMarkdown("![logo](https://example.com/a.png)").trim(),
+      '<p><a href="https://example.com/a.png" rel="noopener noreferrer">logo</a></p>',
+    );
+  });
+
+  it("drops javascript: targets of links and images", () => {
+    for (const content of [
+      "[x](javascript:alert(1))",
+      "![x](javascript:alert(1))",
+      '![x" onerror="alert(1)](https://example.com/a.png)',
+    ]) {
+      const html = renderMarkdown(content);
+      assert.doesNotMatch(html, /javascript:|<[^>]*onerror/, content);
+    }
+  });
+
+  it("escapes HTML in code blocks and their language", () => {
+    const html = renderMarkdown(
+      '```"><script>alert(1)</script>\n</code><script>alert(1)</script>\n```',
+    );
+    assert.doesNotMatch(html, /<script/);
+    assert.match(html, /&lt;\/code&gt;&lt;script&gt;/);
+  });
+
+  it("gives code blocks their toolbar and highlighting", () => {
+    const html = renderMarkdown("```js\nconst a = 1;\n```");
+    for (const action of ["copy", "insert", "replace", "newFile", "apply"]) {
+      assert.match(html, new RegExp(`data-action="${action}"`));
+    }
+    assert.match(html, /<span class="hljs-keyword">const<\/span>/);
+  });
+
+  it("skips highlighting when asked to", () => {
+    const html = renderMarkdown("```js\nconst a = 1;\n```", false);
+    assert.doesNotMatch(html, /hljs-keyword/);
+    assert.match(html, /const a = 1;/);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Model name tests for AI Code Assistant VS Code Extension
+ *
+ * @fileoverview Matching configured model names to the server's names
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { findAvailableModel } from "../modelNames";
+
+describe("findAvailableModel", () => {
+  const available = ["llama3.2:latest", "qwen2.5-coder:7b", "gpt-4o"];
+
+  it("matches an untagged name to its latest tag", () => {
+    assert.equal(findAvailableModel("llama3.2", available), "llama3.2:latest");
+  });
+
+  it("matches tagged names exactly", () => {
+    assert.equal(
+      findAvailableModel("llama3.2:latest", available),
+      "llama3.2:latest",
+    );
+    assert.equal(
+      findAvailableModel("qwen2.5-coder:7b", available),
+      "qwen2.5-coder:7b",
+    );
+  });
+
+  it("matches names without tags on either side", () => {
+    assert.equal(findAvailableModel("gpt-4o", available), "gpt-4o");
+    assert.equal(findAvailableModel("gpt-4o:latest", available), "gpt-4o");
+  });
+
+  it("does not match another tag of the model", () => {
+    assert.equal(findAvailableModel("qwen2.5-coder", available), undefined);
+    assert.equal(findAvailableModel("llama3.2:1b", available), undefined);
+  });
+
+  it("does not take a registry port for a tag", () => {
+    assert.equal(
+      findAvailableModel("localhost:5000/coder", [
+        "localhost:5000/coder:latest",
+      ]),
+      "localhost:5000/coder:latest",
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Sanitizer tests for AI Code Assistant VS Code Extension
+ *
+ * @fileoverview Hostile HTML passed through the chat sanitizer
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import "./webviewGlobals";
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { sanitizeHtml } from "../webview/sanitize";
+
+describe("sanitizeHtml", () => {
+  it("removes images with event handlers", () => {
+    assert.equal(
+      sanitizeHtml("<p>a<img src=x onerror=alert(1)>b</p>"),
+      "<p>ab</p>",
+    );
+  });
+
+  it("removes svg, iframe, script and style with their content", () => {
+    assert.equal(
+      sanitizeHtml(
+        "<svg onload=alert(1)><circle/></svg>" +
+          '<iframe src="https://example.com"></iframe>' +
+          "<script>alert(1)</script>" +
+          "<style>body { display: none }</style>ok",
+      ),
+      "ok",
+    );
+  });
+
+  it("drops javascript: links", () => {
+    assert.equal(
+      sanitizeHtml('<a href="javascript:alert(1)">x</a>'),
+      '<a rel="noopener noreferrer">x</a>',
+    );
+  });
+
+  it("drops javascript: links hidden by case or control characters", () => {
+    for (const href of [
+      " JaVaScRiPt:alert(1)",
+      "\tjavascript:alert(1)",
+      "\u0001javascript:alert(1)",
+      "java\nscript:alert(1)",
+    ]) {
+      const html = sanitizeHtml(`<a href="${href}">x</a>`);
+      assert.doesNotMatch(html, /href/, JSON.stringify(href));
+    }
+  });
+
+  it("drops javascript: links in nested anchors", () => {
+    const html = sanitizeHtml("<a><a href=javascript:alert(1)>x</a></a>");
+    assert.doesNotMatch(html, /href|javascript/);
+  });
+
+  it("keeps web and mail links, without access to the opener", () => {
+    assert.equal(
+      sanitizeHtml('<a href="https://example.com" target="_blank">x</a>'),
+      '<a href="https://example.com" rel="noopener noreferrer">x</a>',
+    );
+    assert.match(sanitizeHtml('<a href="mailto:a@b.c">x</a>'), /href="mailto:/);
+  });
+
+  it("drops classes outside the allowlist", () => {
+    assert.equal(
+      sanitizeHtml('<span class="hljs-keyword evil">x</span>'),
+      "<span>x</span>",
+    );
+    assert.equal(
+      sanitizeHtml('<span class="hljs-keyword">x</span>'),
+      '<span class="hljs-keyword">x</span>',
+    );
+  });
+
+  it("drops event handlers and styles from allowed tags", () => {
+    assert.equal(
+      sanitizeHtml('<p onclick="alert(1)" style="color: red">x</p>'),
+      "<p>x</p>",
+    );
+  });
+
+  it("unwraps unknown tags and keeps their text", () => {
+    assert.equal(sanitizeHtml("<marquee><b>x</b></marquee>"), "x");
+  });
+
+  it("keeps only known code block actions", () => {
+    assert.equal(
+      sanitizeHtml('<button data-action="copy">a</button>'),
+      '<button data-action="copy">a</button>',
+    );
+    assert.equal(
+      sanitizeHtml('<button data-action="runTerminal">a</button>'),
+      "<button>a</button>",
+    );
+  });
+
+  it("keeps only disabled checkboxes as inputs", () => {
+    assert.equal(
+      sanitizeHtml('<input type="checkbox" checked>'),
+      '<input type="checkbox" checked="" disabled="">',
+    );
+    assert.equal(sanitizeHtml('<input type="text" value="x">'), "");
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Webview test environment for AI Code Assistant VS Code Extension
+ *
+ * This module gives the tests the globals the chat webview runs with: a DOM
+ * from jsdom, and the marked and highlight.js bundles the extension serves,
+ * loaded as plain scripts just as the webview page loads them.
+ *
+ * @fileoverview Globals for testing webview modules
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+import { JSDOM } from "jsdom";
+
+const { window } = new JSDOM("<!DOCTYPE html><html><body></body></html>");
+
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  Node: window.Node,
+  Element: window.Element,
+});
+
+/** Scripts the chat page loads before its own */
+const WEBVIEW_LIBRARIES = [
+  path.join(
+    path.dirname(require.resolve("marked/package.json")),
+    "lib",
+    "marked.umd.js",
+  ),
+  require.resolve("@highlightjs/cdn-assets/highlight.min.js"),
+];
+
+for (const library of WEBVIEW_LIBRARIES) {
+  vm.runInThisContext(fs.readFileSync(library, "utf8"), { filename: library });
+}
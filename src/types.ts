@@ -10,6 +10,7 @@
  */
 
 import * as vscode from "vscode";
+import type { ErrorAction } from "./webview/protocol";
 
 /**
  * Represents a single chat message in the conversation
@@ -19,7 +20,56 @@ export interface ChatMessage {
   sender: "user" | "assistant";
   content: string;
   timestamp: Date;
-  fileReference?: FileReference;
+  fileReferences?: FileReference[];
+  isError?: boolean;
+  /** Actions offered on an error message */
+  errorActions?: ErrorAction[];
+  /** Model that produced an assistant reply */
+  model?: string;
+  /** Model that was asked for when a fallback model answered instead */
+  requestedModel?: string;
+  /** Timing and token counts reported for an assistant reply */
+  stats?: GenerationStats;
+}
+
+/**
+ * Timing and token counts of one generated reply. Durations are in
+ * milliseconds; fields the provider did not report are left out.
+ */
+export interface GenerationStats {
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensPerSecond?: number;
+  /** Time spent loading the model into memory */
+  loadDuration?: number;
+  totalDuration?: number;
+}
+
+/**
+ * Generation stats of a session's replies from one model
+ */
+export interface ModelStatsSummary {
+  model: string;
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Average over the replies that reported a speed */
+  tokensPerSecond?: number;
+  /** Average over the replies that reported a load time */
+  loadDuration?: number;
+}
+
+/**
+ * Represents a named chat conversation
+ */
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  model?: string;
+  messages: ChatMessage[];
 }
 
 /**
@@ -32,6 +82,7 @@ export interface FileReference {
   language: string;
   size?: number;
   lineCount?: number;
+  truncated?: boolean;
 }
 
 /**
@@ -40,11 +91,23 @@ export interface FileReference {
 export interface ChatItem {
   id: string;
   label: string;
-  type: "message" | "file";
+  type: "session" | "message" | "file";
+  session?: ChatSession;
   message?: ChatMessage;
+  fileReference?: FileReference;
   collapsibleState?: vscode.TreeItemCollapsibleState;
 }
 
+/**
+ * Represents an installed model in the models tree view
+ */
+export interface ModelItem extends LLMModelInfo {
+  /** Whether the model is currently loaded in memory */
+  loaded: boolean;
+  /** When a loaded model will be unloaded */
+  expiresAt?: Date;
+}
+
 /**
  * Represents an item in the drop zone tree view
  */
@@ -55,13 +118,55 @@ export interface DropZoneItem {
 }
 
 /**
- * Ollama service message format
+ * Chat message format sent to model providers
  */
-export interface OllamaMessage {
+export interface LLMMessage {
   role: "user" | "assistant" | "system";
   content: string;
 }
 
+/**
+ * Scheduling priority of a model request: chat, inline chat and panels,
+ * then background work such as completions and titles
+ */
+export type RequestPriority = "interactive" | "inline" | "background";
+
+/**
+ * Requests sent to the model server and waiting for a slot
+ */
+export interface RequestQueueStatus {
+  running: number;
+  queued: number;
+}
+
+/**
+ * Per-request options for AI service calls
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Scheduling priority, "interactive" by default */
+  priority?: RequestPriority;
+  /** A newer request with the same key drops this one */
+  supersedeKey?: string;
+  /** Called when the requested model is missing and another one is used */
+  onModelFallback?: (requestedModel: string, fallbackModel: string) => void;
+  /** Called with the generation stats once a reply is complete */
+  onStats?: (stats: GenerationStats) => void;
+  /** Attempts made when the request fails with a transient error */
+  maxAttempts?: number;
+}
+
+/**
+ * A model offered by a provider, with optional details for display
+ */
+export interface LLMModelInfo {
+  name: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  size?: number;
+}
+
 /**
  * Ollama API response format
  */
@@ -96,6 +201,41 @@ export interface OllamaModelInfo {
   modified_at: string;
 }
 
+/**
+ * Ollama /api/show response, reduced to the fields the extension reads
+ */
+export interface OllamaShowResponse {
+  modelfile?: string;
+  /** Modelfile PARAMETER lines, one "name value" per line */
+  parameters?: string;
+  template?: string;
+  license?: string;
+  details?: Partial<OllamaModelInfo["details"]>;
+  /** Architecture details keyed like "llama.context_length" */
+  model_info?: Record<string, unknown>;
+}
+
+/**
+ * Model loaded in memory, as listed by Ollama /api/ps
+ */
+export interface OllamaRunningModel {
+  name: string;
+  size: number;
+  size_vram?: number;
+  expires_at?: string;
+}
+
+/**
+ * Progress line streamed by Ollama /api/pull
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  /** Size of the layer being downloaded, in bytes */
+  total?: number;
+  completed?: number;
+}
+
 /**
  * Connection status for services
  */
@@ -103,6 +243,8 @@ export interface ServiceConnectionStatus {
   connected: boolean;
   url: string;
   availableModels: string[];
+  /** Model a streamed request is waiting on before its first token */
+  loadingModel?: string;
 }
 
 /**
@@ -114,29 +256,6 @@ export interface FileStatistics {
   characterCount: number;
 }
 
-/**
- * Webview message types for communication between extension and webview
- */
-export interface WebviewMessage {
-  type: WebviewMessageType;
-  [key: string]: any;
-}
-
-/**
- * Enum for webview message types
- */
-export enum WebviewMessageType {
-  SEND_MESSAGE = "sendMessage",
-  ATTACH_FILE = "attachFile",
-  FILES_DROPPED = "filesDropped",
-  TEXT_DROPPED = "textDropped",
-  DROP_FAILED = "dropFailed",
-  CLEAR_STAGED_FILE = "clearStagedFile",
-  CLEAR_CHAT = "clearChat",
-  UPDATE_MESSAGES = "updateMessages",
-  UPDATE_STAGED_FILE = "updateStagedFile",
-}
-
 /**
  * Drop source types
  */
@@ -175,6 +294,7 @@ export enum SupportedLanguage {
   XML = "xml",
   YAML = "yaml",
   MARKDOWN = "markdown",
+  DIFF = "diff",
   PLAINTEXT = "plaintext",
 }
 
@@ -188,6 +308,16 @@ export interface FileProcessingConfig {
   binaryFileExtensions: string[];
 }
 
+/**
+ * Inline completion settings
+ */
+export interface InlineCompletionConfig {
+  /** Whether completions are shown, by language ID ("*" for the rest) */
+  enable: Record<string, boolean>;
+  /** Pause in typing before a completion is requested, in milliseconds */
+  debounceDelay: number;
+}
+
 /**
  * Extension commands enumeration
  */
@@ -246,12 +376,19 @@ export const LANGUAGE_EXTENSIONS: Record<string, SupportedLanguage> = {
   ".yaml": SupportedLanguage.YAML,
   ".yml": SupportedLanguage.YAML,
   ".md": SupportedLanguage.MARKDOWN,
+  ".diff": SupportedLanguage.DIFF,
+  ".patch": SupportedLanguage.DIFF,
   ".txt": SupportedLanguage.PLAINTEXT,
 };
 
 /**
  * Default configuration values
  */
+export const DEFAULT_INLINE_COMPLETION_CONFIG: InlineCompletionConfig = {
+  enable: { "*": true, plaintext: false, markdown: false, scminput: false },
+  debounceDelay: 300,
+};
+
 export const DEFAULT_CONFIG: FileProcessingConfig = {
   maxFileSize: 1024 * 1024, // 1MB
   maxFilesPerFolder: 10,
@@ -274,9 +411,12 @@ export interface OllamaConfig {
   baseUrl: string;
   defaultModel: string;
   timeout: number;
+  contextWindow: number;
   temperature: number;
   topP: number;
   topK: number;
+  /** How long Ollama keeps a model loaded after a request, e.g. "5m" */
+  keepAlive: string;
 }
 
 /**
@@ -286,7 +426,40 @@ export const DEFAULT_OLLAMA_CONFIG: OllamaConfig = {
   baseUrl: "http://localhost:11434",
   defaultModel: "llama3.2",
   timeout: 60000,
+  contextWindow: 4096,
   temperature: 0.7,
   topP: 0.9,
   topK: 40,
+  keepAlive: "5m",
+};
+
+/**
+ * Supported model provider backends
+ */
+export type LLMProviderType = "ollama" | "openai";
+
+/**
+ * OpenAI-compatible server configuration (llama.cpp server, vLLM, ...)
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  defaultModel: string;
+  timeout: number;
+  contextWindow: number;
+  temperature: number;
+  topP: number;
+}
+
+/**
+ * Default OpenAI-compatible configuration
+ */
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: "http://localhost:8080/v1",
+  apiKey: "",
+  defaultModel: "",
+  timeout: 60000,
+  contextWindow: 4096,
+  temperature: 0.7,
+  topP: 0.9,
 };
@@ -9,12 +9,16 @@
  * @version 1.0.0
  */
 
+import * as fs from "fs";
 import * as path from "path";
+import * as vscode from "vscode";
 import {
   SupportedLanguage,
   LANGUAGE_EXTENSIONS,
   FileStatistics,
 } from "./types";
+import { LLMError } from "./errors";
+import { estimateTokens } from "./webview/tokens";
 
 /**
  * File utilities
@@ -46,7 +50,10 @@ export class FileUtils {
   static formatFileSize(bytes: number): string {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return Math.round(bytes / 1024) + " KB";
-    return Math.round(bytes / (1024 * 1024)) + " MB";
+    if (bytes < 1024 * 1024 * 1024) {
+      return Math.round(bytes / (1024 * 1024)) + " MB";
+    }
+    return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
   }
 
   /**
@@ -80,6 +87,18 @@ export class FileUtils {
   static getFileExtension(filePath: string): string {
     return path.extname(filePath);
   }
+
+  /**
+   * Checks whether a path names a file on disk, rather than a virtual
+   * reference such as "problems" or a folder
+   */
+  static isFileOnDisk(filePath: string): boolean {
+    try {
+      return path.isAbsolute(filePath) && fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
 }
 
 
@@ -109,20 +128,159 @@ export class StringUtils {
   }
 
   /**
-   * Formats message content with basic markdown-like styling
+   * Generates a unique ID
    */
-  static formatMessageContent(content: string): string {
-    return content
-      .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>") // Bold text
-      .replace(/\*(.*?)\*/g, "<em>$1</em>") // Italic text
-      .replace(/\n/g, "<br>"); // Line breaks
+  static generateId(): string {
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
   }
+}
 
+/**
+ * Token utilities
+ */
+export class TokenUtils {
   /**
-   * Generates a unique ID
+   * Estimates the number of tokens a model tokenizer produces for a text.
+   * Shared with the chat webview, which estimates the draft message.
    */
-  static generateId(): string {
-    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  static estimateTokens(text: string): number {
+    return estimateTokens(text);
+  }
+}
+
+/**
+ * Stream utilities
+ */
+export class StreamUtils {
+  /**
+   * Creates a buffer that splits streamed text into complete lines.
+   * Partial lines are held back until the next chunk or flush.
+   */
+  static createLineBuffer(onLine: (line: string) => void): {
+    push: (chunk: string) => void;
+    flush: () => void;
+  } {
+    let pending = "";
+
+    return {
+      push(chunk: string) {
+        pending += chunk;
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+        lines
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0)
+          .forEach(onLine);
+      },
+      flush() {
+        const line = pending.trim();
+        pending = "";
+        if (line) {
+          onLine(line);
+        }
+      },
+    };
+  }
+
+  /**
+   * Reads the body of a failed streamed request. Axios leaves it as a
+   * stream, so it is replaced with the parsed JSON (or the text when it is
+   * not JSON) before the error is classified.
+   */
+  static async readErrorBody(error: any): Promise<void> {
+    const data = error?.response?.data;
+    if (typeof data?.on !== "function") {
+      return;
+    }
+
+    const text = await new Promise<string>((resolve) => {
+      const chunks: Buffer[] = [];
+      data.on("data", (chunk: Buffer) => chunks.push(chunk));
+      data.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      data.on("error", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    });
+
+    try {
+      error.response.data = JSON.parse(text);
+    } catch {
+      error.response.data = text;
+    }
+  }
+}
+
+/**
+ * Retry utilities
+ */
+export class RetryUtils {
+  /**
+   * Gets the delay before retry number `attempt` (from 1): doubling from
+   * baseDelay up to maxDelay, with up to half of it taken off at random so
+   * clients that failed together do not retry together
+   */
+  static getBackoffDelay(
+    attempt: number,
+    baseDelay: number,
+    maxDelay: number,
+  ): number {
+    const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  /**
+   * Waits for the given time, rejecting with a CancellationError as soon
+   * as the signal aborts
+   */
+  static delay(milliseconds: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new vscode.CancellationError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new vscode.CancellationError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, milliseconds);
+      signal?.addEventListener("abort", onAbort);
+    });
+  }
+}
+
+/**
+ * Cancellation utilities
+ */
+export class CancellationUtils {
+  /**
+   * Creates an AbortSignal that fires when a VS Code cancellation token
+   * does. Dispose the result once the request settles to stop listening
+   * to a token that outlives it.
+   */
+  static linkAbortSignal(
+    token: vscode.CancellationToken,
+  ): vscode.Disposable & { signal: AbortSignal } {
+    const controller = new AbortController();
+
+    if (token.isCancellationRequested) {
+      controller.abort();
+      return { signal: controller.signal, dispose: () => {} };
+    }
+
+    const listener = token.onCancellationRequested(() => {
+      listener.dispose();
+      controller.abort();
+    });
+    return { signal: controller.signal, dispose: () => listener.dispose() };
+  }
+
+  /**
+   * Checks whether an error was caused by the user cancelling a request
+   */
+  static isCancellation(error: unknown): boolean {
+    return error instanceof vscode.CancellationError;
   }
 }
 
@@ -169,6 +327,10 @@ export class ErrorUtils {
    * Creates a user-friendly error message
    */
   static createUserFriendlyError(error: unknown): string {
+    // Model provider errors are already written for the user
+    if (error instanceof LLMError) {
+      return error.message;
+    }
     if (error instanceof Error) {
       if (error.message.includes("ECONNREFUSED")) {
         return "Cannot connect to AI service. Please make sure it is running.";
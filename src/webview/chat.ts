@@ -0,0 +1,1506 @@
+/**
+ * VS Code Chat Webview Script - jQuery Optimized Version
+ * Handles communication between the webview and VS Code extension for AI chat functionality
+ * Supports drag-and-drop file attachments from various sources
+ *
+ * @fileoverview Main script for the AI Code Assistant chat webview (jQuery optimized)
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 2.0.0
+ */
+
+import type {
+  ChatMessageData,
+  CodeBlockAction,
+  ContextUsageData,
+  ErrorAction,
+  ExtensionToWebviewMessage,
+  GenerationStatsData,
+  MentionData,
+  ModelData,
+  ModelStatsData,
+  SlashCommandData,
+  StagedFileData,
+  WebviewToExtensionMessage,
+} from "./protocol";
+import { escapeHtml, renderMarkdown } from "./markdown.js";
+import { estimateTokens } from "./tokens.js";
+
+/**
+ * VS Code API available inside webviews
+ */
+declare function acquireVsCodeApi(): {
+  postMessage(message: WebviewToExtensionMessage): void;
+};
+
+/**
+ * jQuery handles of the elements the chat works with
+ */
+interface ChatElements {
+  messagesContainer: JQuery<HTMLElement>;
+  sessionTitle: JQuery<HTMLElement>;
+  modelSelect: JQuery<HTMLElement>;
+  refreshModelsBtn: JQuery<HTMLElement>;
+  connectionBanner: JQuery<HTMLElement>;
+  reconnectBtn: JQuery<HTMLElement>;
+  messageInput: JQuery<HTMLElement>;
+  inputSuggestions: JQuery<HTMLElement>;
+  sendBtn: JQuery<HTMLElement>;
+  stopBtn: JQuery<HTMLElement>;
+  attachBtn: JQuery<HTMLElement>;
+  clearChatBtn: JQuery<HTMLElement>;
+  clearStagedBtn: JQuery<HTMLElement>;
+  stagedFilesContainer: JQuery<HTMLElement>;
+  stagedFilesList: JQuery<HTMLElement>;
+  dropZone: JQuery<HTMLElement>;
+  contextMeter: JQuery<HTMLElement>;
+  body: JQuery<HTMLElement>;
+  document: JQuery<Document>;
+}
+
+/**
+ * Entry in the input autocomplete popup
+ */
+interface InputSuggestion {
+  label: string;
+  description?: string;
+  /** Input text at which Enter sends the message instead of accepting */
+  completeText?: string;
+  accept: () => void;
+}
+
+/**
+ * An @-mention being typed, as a range of the input text
+ */
+interface MentionQuery {
+  start: number;
+  end: number;
+  query: string;
+}
+
+function initializeChatWithJQuery() {
+  // VS Code API instance for communication with the extension
+  const vscode = acquireVsCodeApi();
+
+  // Chat data
+  let messages: ChatMessageData[] = [];
+  let stagedFiles: StagedFileData[] = [];
+  let isGenerating = false;
+  let sessionTitle = "";
+  let sessionStats: ModelStatsData[] = [];
+
+  // Context budget meter state
+  const METER_WARNING_RATIO = 0.8;
+  let contextUsage: ContextUsageData | undefined;
+
+  // Streamed messages waiting to be re-rendered on the next frame
+  const pendingRenders = new Set<string>();
+  let renderFrame: number | undefined;
+
+  // Slash command and @-mention autocomplete state
+  const MENTION_SEARCH_DELAY_MS = 150;
+  let slashCommands: SlashCommandData[] = [];
+  let suggestions: InputSuggestion[] = [];
+  let selectedSuggestionIndex = 0;
+  let mentionQuery: MentionQuery | undefined;
+  let mentionSearchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // jQuery DOM element cache for performance
+  const $elements = {} as ChatElements;
+
+  /**
+   * Cache DOM elements using jQuery for better performance
+   */
+  function cacheDOMElements() {
+    $elements.messagesContainer = $("#messagesContainer");
+    $elements.sessionTitle = $("#sessionTitle");
+    $elements.modelSelect = $("#modelSelect");
+    $elements.refreshModelsBtn = $("#refreshModelsBtn");
+    $elements.connectionBanner = $("#connectionBanner");
+    $elements.reconnectBtn = $("#reconnectBtn");
+    $elements.messageInput = $("#messageInput");
+    $elements.inputSuggestions = $("#inputSuggestions");
+    $elements.sendBtn = $("#sendBtn");
+    $elements.stopBtn = $("#stopBtn");
+    $elements.attachBtn = $("#attachBtn");
+    $elements.clearChatBtn = $("#clearChatBtn");
+    $elements.clearStagedBtn = $("#clearStagedBtn");
+    $elements.stagedFilesContainer = $("#stagedFilesContainer");
+    $elements.stagedFilesList = $("#stagedFilesList");
+    $elements.dropZone = $("#dropZone");
+    $elements.contextMeter = $("#contextMeter");
+    $elements.body = $("body");
+    $elements.document = $(document);
+  }
+
+  /**
+   * Enhanced drag and drop handlers with jQuery
+   */
+  function setupDragAndDrop() {
+    // Prevent default drag behaviors on document
+    $elements.document.on("dragover dragenter", function (e) {
+      e.preventDefault();
+      e.stopPropagation();
+      showDropZone();
+    });
+
+    $elements.document.on("dragleave", function (e) {
+      const event = e.originalEvent as DragEvent | undefined;
+      // Only hide if leaving the window entirely
+      if (event?.clientX === 0 && event?.clientY === 0) {
+        hideDropZone();
+      }
+    });
+
+    $elements.document.on("drop", function (e) {
+      e.preventDefault();
+      e.stopPropagation();
+      hideDropZone();
+      handleDrop(e.originalEvent as DragEvent);
+    });
+
+    // Click to hide drop zone
+    $elements.dropZone.on("click", hideDropZone);
+  }
+
+  /**
+   * Setup all event listeners using jQuery's efficient event delegation
+   */
+  function setupEventListeners() {
+    // Button click handlers
+    $elements.sendBtn.on("click", sendUserMessage);
+    $elements.stopBtn.on("click", handleStopClick);
+    $elements.attachBtn.on("click", handleAttachButtonClick);
+    $elements.clearChatBtn.on("click", handleClearChatClick);
+    $elements.clearStagedBtn.on("click", handleClearStagedClick);
+    $elements.refreshModelsBtn.on("click", handleRefreshModelsClick);
+    $elements.reconnectBtn.on("click", handleReconnectClick);
+    $elements.modelSelect.on("change", handleModelChange);
+
+    // Input handlers
+    $elements.messageInput.on("keydown", handleMessageInputKeydown);
+
+    // Auto-resize textarea and suggest commands and mentions
+    $elements.messageInput.on("input", function () {
+      autoResizeTextarea(this);
+      updateInputSuggestions();
+      updateContextMeter();
+    });
+    $elements.messageInput.on("blur", closeSuggestions);
+
+    // mousedown keeps focus in the input while picking a suggestion
+    $elements.inputSuggestions.on(
+      "mousedown",
+      ".input-suggestion",
+      function (e) {
+        e.preventDefault();
+        acceptSuggestion(Number($(this).attr("data-index")));
+      },
+    );
+
+    // Dynamic event delegation for staged file removal
+    $elements.stagedFilesList.on("click", ".remove-file-btn", function (e) {
+      e.preventDefault();
+      const index = parseInt(
+        $(this).closest(".staged-file-item").attr("data-index") ?? "",
+      );
+      removeStagedFile(index);
+    });
+
+    // Dynamic event delegation for code block actions
+    $elements.messagesContainer.on(
+      "click",
+      ".code-block-action",
+      handleCodeBlockActionClick,
+    );
+
+    // Dynamic event delegation for error message actions
+    $elements.messagesContainer.on(
+      "click",
+      ".error-action",
+      handleErrorActionClick,
+    );
+
+    // Extension message listener
+    window.addEventListener("message", handleExtensionMessage);
+  }
+
+  /**
+   * Auto-resize textarea based on content
+   */
+  function autoResizeTextarea(textarea: HTMLElement) {
+    const $textarea = $(textarea);
+    const minHeight = 60;
+    const maxHeight = 150;
+
+    $textarea.css("height", "auto");
+    const scrollHeight = textarea.scrollHeight;
+    const newHeight = Math.min(Math.max(scrollHeight, minHeight), maxHeight);
+    $textarea.css("height", newHeight + "px");
+  }
+
+  /**
+   * Enhanced drop zone display with jQuery animations
+   */
+  function showDropZone() {
+    $elements.dropZone.fadeIn(200).addClass("drag-active");
+    $elements.messagesContainer.addClass("drag-active");
+  }
+
+  /**
+   * Hide drop zone with smooth animation
+   */
+  function hideDropZone() {
+    $elements.dropZone.fadeOut(200).removeClass("drag-active");
+    $elements.messagesContainer.removeClass("drag-active");
+  }
+
+  /**
+   * Optimized file drop handler
+   */
+  function handleDrop(e: DragEvent) {
+    console.log("[Webview] Drop event triggered");
+
+    const dataTransfer = e.dataTransfer;
+    if (!dataTransfer) return;
+
+    console.log(
+      "[Webview] Available data types:",
+      Array.from(dataTransfer.types),
+    );
+
+    // Process different data transfer formats with priority order
+    const processors = [
+      () => processVSCodeUriList(dataTransfer),
+      () => processResourceUrls(dataTransfer),
+      () => processCodeEditors(dataTransfer),
+      () => processUriList(dataTransfer),
+      () => processPlainText(dataTransfer),
+      () => processOSFiles(dataTransfer),
+    ];
+
+    for (const processor of processors) {
+      if (processor()) {
+        return; // Successfully processed
+      }
+    }
+
+    handleDropFailure(dataTransfer);
+  }
+
+  /**
+   * Generic function to process URI list data from various data transfer types
+   */
+  function processUriListData(
+    dataTransfer: DataTransfer,
+    dataType: string,
+    logName: string,
+  ): boolean {
+    const data = dataTransfer.getData(dataType);
+    if (!data?.trim()) return false;
+
+    console.log(`[Webview] ${logName} found:`, data);
+    const files = data.split(/[\r\n]+/).filter((uri) => uri.trim());
+
+    if (files.length > 0) {
+      sendMessage({
+        type: "filesDropped",
+        files: files,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Process VS Code URI list format
+   */
+  function processVSCodeUriList(dataTransfer: DataTransfer): boolean {
+    return processUriListData(
+      dataTransfer,
+      "application/vnd.code.uri-list",
+      "VS Code URI list",
+    );
+  }
+
+  /**
+   * Process resource URLs format
+   */
+  function processResourceUrls(dataTransfer: DataTransfer): boolean {
+    return processUriListData(dataTransfer, "resourceurls", "Resource URLs");
+  }
+
+  /**
+   * Process code editors format
+   */
+  function processCodeEditors(dataTransfer: DataTransfer): boolean {
+    const data = dataTransfer.getData("codeeditors");
+    if (!data?.trim()) return false;
+
+    console.log("[Webview] Code editors data found:", data);
+
+    try {
+      const editorData = JSON.parse(data);
+
+      if (editorData?.resource) {
+        sendMessage({
+          type: "filesDropped",
+          files: [String(editorData.resource)],
+        });
+        return true;
+      }
+
+      if (Array.isArray(editorData)) {
+        const files = editorData
+          .map((item: { resource?: unknown }) => item?.resource)
+          .filter(Boolean)
+          .map(String);
+        if (files.length > 0) {
+          sendMessage({
+            type: "filesDropped",
+            files: files,
+          });
+          return true;
+        }
+      }
+    } catch {
+      if (isValidFilePath(data)) {
+        sendMessage({
+          type: "filesDropped",
+          files: [data],
+        });
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Process standard URI list format
+   */
+  function processUriList(dataTransfer: DataTransfer): boolean {
+    return processUriListData(dataTransfer, "text/uri-list", "URI list");
+  }
+
+  /**
+   * Process plain text format
+   */
+  function processPlainText(dataTransfer: DataTransfer): boolean {
+    const data = dataTransfer.getData("text/plain");
+    if (!data?.trim()) return false;
+
+    console.log("[Webview] Plain text found:", data);
+
+    if (isValidFilePath(data)) {
+      sendMessage({
+        type: "filesDropped",
+        files: [data],
+      });
+      return true;
+    } else {
+      sendMessage({
+        type: "textDropped",
+        text: data,
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Process OS file objects
+   */
+  function processOSFiles(dataTransfer: DataTransfer): boolean {
+    if (dataTransfer.files.length === 0) return false;
+
+    console.log("[Webview] OS files detected");
+    const filePaths = Array.from(dataTransfer.files).map((file) => file.name);
+
+    sendMessage({
+      type: "filesDropped",
+      files: filePaths,
+    });
+    return true;
+  }
+
+  /**
+   * Handle drop failure
+   */
+  function handleDropFailure(dataTransfer: DataTransfer) {
+    console.log("[Webview] No supported drop data found");
+
+    const typeInfo = Array.from(dataTransfer.types).map((type) => {
+      const data = dataTransfer.getData(type);
+      console.log(`[Webview] Type "${type}":`, data);
+      return `${type}: ${data ? data.substring(0, 50) + "..." : "empty"}`;
+    });
+
+    sendMessage({
+      type: "dropFailed",
+      message: `No supported files found. Available types: ${dataTransfer.types.join(", ")}`,
+      debugInfo: typeInfo,
+    });
+  }
+
+  /**
+   * Check if text is a valid file path
+   */
+  function isValidFilePath(text: string): boolean {
+    return (
+      text.startsWith("file://") ||
+      text.includes("/") ||
+      /^[a-zA-Z]:\\/.test(text)
+    );
+  }
+
+  /**
+   * Enhanced staged files display with jQuery templating and animations
+   */
+  function updateStagedFilesDisplay() {
+    if (
+      !$elements.stagedFilesContainer.length ||
+      !$elements.stagedFilesList.length
+    )
+      return;
+
+    if (stagedFiles.length > 0) {
+      // Show container with animation
+      $elements.stagedFilesContainer.slideDown(300);
+
+      // Generate file items using jQuery
+      const $fileItems = stagedFiles.map((file, index) => {
+        const languageIcon = getLanguageIcon(file.language || "plaintext");
+        const fileExtension = getFileExtension(file.fileName);
+
+        return $(`
+                    <div class="staged-file-item" data-index="${index}">
+                        <div class="file-info-main">
+                            <span class="file-icon">${languageIcon}</span>
+                            <div class="file-details">
+                                <span class="file-name" title="${escapeHtml(file.filePath || file.fileName)}">${escapeHtml(file.fileName)}</span>
+                                <div class="file-meta">
+                                    <span class="file-language">${escapeHtml(file.language || fileExtension)}</span>
+                                    <span class="file-size">${formatFileSize(file.size || 0)}</span>
+                                    ${file.lineCount ? `<span class="file-lines">${file.lineCount} lines</span>` : ""}
+                                    ${file.tokens ? `<span class="file-tokens">~${formatTokenCount(file.tokens)} tokens</span>` : ""}
+                                </div>
+                            </div>
+                            <button class="remove-file-btn" title="Remove file">✕</button>
+                        </div>
+                        ${file.content ? `<div class="file-preview">${getFilePreview(file.content, file.language)}</div>` : ""}
+                    </div>
+                `)
+          .hide()
+          .fadeIn(400); // Add entrance animation
+      });
+
+      // Clear and populate with animation
+      $elements.stagedFilesList.empty().append($fileItems);
+
+      // Update input placeholder
+      const fileNames = stagedFiles.map((f) => f.fileName).join(", ");
+      $elements.messageInput.attr("placeholder", `Ask about ${fileNames}...`);
+
+      // Show success notification
+      showFileAttachedNotification(stagedFiles.length);
+    } else {
+      // Hide container with animation
+      $elements.stagedFilesContainer.slideUp(300);
+      $elements.messageInput.attr(
+        "placeholder",
+        "Ask me anything about your code...",
+      );
+    }
+  }
+
+  /**
+   * Get language-specific icon
+   */
+  function getLanguageIcon(language: string): string {
+    const icons: Record<string, string> = {
+      javascript: "🟨",
+      typescript: "🔷",
+      python: "🐍",
+      java: "☕",
+      cpp: "⚙️",
+      c: "⚙️",
+      csharp: "🔵",
+      php: "🐘",
+      ruby: "💎",
+      go: "🐹",
+      rust: "🦀",
+      swift: "🍎",
+      kotlin: "🎯",
+      dart: "🎯",
+      vue: "💚",
+      html: "🌐",
+      css: "🎨",
+      scss: "🎨",
+      json: "📋",
+      xml: "📄",
+      yaml: "📝",
+      markdown: "📖",
+      txt: "📄",
+      plaintext: "📄",
+    };
+
+    return icons[language.toLowerCase()] || "📄";
+  }
+
+  /**
+   * Get file extension from filename
+   */
+  function getFileExtension(fileName: string): string {
+    const ext = fileName.split(".").pop()?.toLowerCase();
+    return ext ? `.${ext}` : "";
+  }
+
+  /**
+   * Get a preview of file content
+   */
+  function getFilePreview(content: string, language: string): string {
+    if (!content) return "";
+
+    // Show first 3 lines as preview
+    const lines = content.split("\n").slice(0, 3);
+    const preview = lines.join("\n");
+    const truncated =
+      preview.length > 150 ? preview.substring(0, 147) + "..." : preview;
+
+    return `<pre><code class="language-${escapeHtml(language)}">${escapeHtml(truncated)}</code></pre>`;
+  }
+
+  /**
+   * Remove a staged file by index; the extension sends back the new list
+   */
+  function removeStagedFile(index: number) {
+    if (index >= 0 && index < stagedFiles.length) {
+      sendMessage({
+        type: "removeStagedFile",
+        index: index,
+      });
+    }
+  }
+
+  /**
+   * Enhanced notification system with jQuery animations
+   */
+  function showFileAttachedNotification(count: number) {
+    // Remove existing notification
+    $("#fileAttachedNotification").remove();
+
+    const $notification = $(`
+            <div id="fileAttachedNotification" class="file-attached-notification">
+                <div class="notification-content">
+                    <span class="notification-icon">📎</span>
+                    <span class="notification-text">${count} file${count > 1 ? "s" : ""} attached</span>
+                    <button class="notification-close">✕</button>
+                </div>
+            </div>
+        `);
+
+    // Append to body and animate in
+    $elements.body.append($notification);
+    $notification.addClass("show");
+
+    // Close button handler
+    $notification
+      .find(".notification-close")
+      .on("click", hideFileAttachedNotification);
+
+    // Auto-hide after 3 seconds
+    setTimeout(hideFileAttachedNotification, 3000);
+  }
+
+  /**
+   * Hide notification with animation
+   */
+  function hideFileAttachedNotification() {
+    $("#fileAttachedNotification")
+      .removeClass("show")
+      .delay(300)
+      .fadeOut(200, function () {
+        $(this).remove();
+      });
+  }
+
+  /**
+   * Optimized message rendering with jQuery
+   */
+  function renderMessages() {
+    if (!$elements.messagesContainer.length) return;
+
+    // The full render replaces any streamed content still waiting
+    cancelPendingRenders();
+
+    // Store welcome message
+    const $welcomeMessage = $elements.messagesContainer
+      .find(".welcome-message")
+      .detach();
+
+    // Clear container
+    $elements.messagesContainer.empty();
+
+    if (messages.length === 0) {
+      // Restore welcome message with animation
+      if ($welcomeMessage.length) {
+        $elements.messagesContainer.append($welcomeMessage.hide().fadeIn(300));
+      }
+    } else {
+      // Render messages with staggered animation
+      messages.forEach((message, index) => {
+        const $messageElement = createMessageElement(message);
+        $messageElement.css("opacity", 0).appendTo($elements.messagesContainer);
+
+        // Staggered animation for better UX
+        setTimeout(() => {
+          $messageElement.animate({ opacity: 1 }, 200);
+        }, index * 50);
+      });
+    }
+
+    // Smooth scroll to bottom
+    setTimeout(() => {
+      $elements.messagesContainer.animate(
+        {
+          scrollTop: $elements.messagesContainer[0].scrollHeight,
+        },
+        300,
+      );
+    }, 100);
+  }
+
+  /**
+   * Create message element with jQuery
+   */
+  function createMessageElement(message: ChatMessageData): JQuery<HTMLElement> {
+    const messageClass = `message ${message.sender === "user" ? "user-message" : "assistant-message"}`;
+
+    const $messageDiv = $(`<div class="${messageClass}"></div>`).attr(
+      "data-message-id",
+      message.id,
+    );
+    const $contentDiv = $('<div class="message-content"></div>');
+    renderMessageContent($contentDiv, message);
+
+    $messageDiv.append($contentDiv);
+
+    const fileReferences = message.fileReferences || [];
+    if (fileReferences.length > 0) {
+      const $filesDiv = $('<div class="file-attachments"></div>');
+      fileReferences.forEach((fileReference) => {
+        $('<span class="file-attachment"></span>')
+          .text(`📎 ${fileReference.fileName}`)
+          .attr("title", fileReference.filePath)
+          .appendTo($filesDiv);
+      });
+      $messageDiv.append($filesDiv);
+    }
+
+    // Warn when a different model answered than the one selected
+    if (message.requestedModel) {
+      $('<div class="model-fallback-warning"></div>')
+        .text(
+          `⚠️ "${message.requestedModel}" is not available — answered by "${message.model}"`,
+        )
+        .appendTo($messageDiv);
+    }
+
+    // Offer the actions that may fix a failed request
+    const errorActions = message.errorActions || [];
+    if (errorActions.length > 0) {
+      const $actionsDiv = $('<div class="error-actions"></div>');
+      errorActions.forEach((action) => {
+        $('<button class="error-action"></button>')
+          .text(ERROR_ACTION_LABELS[action])
+          .attr("data-action", action)
+          .appendTo($actionsDiv);
+      });
+      $messageDiv.append($actionsDiv);
+    }
+
+    // Add timestamp (and the answering model)
+    const timestamp = new Date(message.timestamp).toLocaleTimeString();
+    const $timestampDiv = $('<div class="message-timestamp"></div>').text(
+      message.model ? `${timestamp} · ${message.model}` : timestamp,
+    );
+    $messageDiv.append($timestampDiv);
+
+    // Add generation stats reported for the reply
+    if (message.stats) {
+      $('<div class="message-stats"></div>')
+        .text(formatGenerationStats(message.stats))
+        .attr("title", describeGenerationStats(message.stats))
+        .appendTo($messageDiv);
+    }
+
+    return $messageDiv;
+  }
+
+  /**
+   * Render message content, showing a typing indicator while an
+   * assistant response has not produced any tokens yet
+   */
+  function renderMessageContent(
+    $contentDiv: JQuery<HTMLElement>,
+    message: ChatMessageData,
+    highlight = true,
+  ) {
+    if (message.sender === "assistant" && !message.content) {
+      $contentDiv
+        .addClass("typing-indicator")
+        .text("Thinking...");
+      return;
+    }
+
+    $contentDiv
+      .removeClass("typing-indicator")
+      .html(renderMarkdown(message.content, highlight));
+  }
+
+  /**
+   * Append a streamed delta to the in-progress assistant message.
+   * The message is re-rendered at most once per frame, without syntax
+   * highlighting; the final update after generation highlights it.
+   */
+  function appendMessageContent(messageId: string, delta: string) {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message || !delta) return;
+
+    message.content += delta;
+    pendingRenders.add(messageId);
+    if (renderFrame === undefined) {
+      renderFrame = requestAnimationFrame(renderPendingMessages);
+    }
+  }
+
+  /**
+   * Re-render the streamed messages that changed since the last frame
+   */
+  function renderPendingMessages() {
+    renderFrame = undefined;
+
+    const container = $elements.messagesContainer[0];
+    const isAtBottom =
+      container.scrollHeight - container.scrollTop - container.clientHeight <
+      40;
+
+    pendingRenders.forEach((messageId) => {
+      const message = messages.find((m) => m.id === messageId);
+      const $contentDiv = $elements.messagesContainer
+        .find(`.message[data-message-id="${messageId}"]`)
+        .css("opacity", 1)
+        .find(".message-content");
+      if (message && $contentDiv.length) {
+        renderMessageContent($contentDiv, message, false);
+      }
+    });
+    pendingRenders.clear();
+
+    // Keep following the stream unless the user scrolled up to read
+    if (isAtBottom) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }
+
+  /**
+   * Drop streamed renders that have not run yet
+   */
+  function cancelPendingRenders() {
+    if (renderFrame !== undefined) {
+      cancelAnimationFrame(renderFrame);
+      renderFrame = undefined;
+    }
+    pendingRenders.clear();
+  }
+
+  /**
+   * Enhanced message sending with validation and feedback
+   */
+  function sendUserMessage() {
+    if (isGenerating) return;
+
+    const text = String($elements.messageInput.val() ?? "").trim();
+
+    if (!text) {
+      // Shake animation for empty input
+      $elements.messageInput.addClass("shake").on("animationend", function () {
+        $(this).removeClass("shake");
+      });
+      return;
+    }
+
+    console.log("[Webview] Sending message:", text);
+
+    // Swap to the Stop button right away; the extension confirms the state
+    setGenerating(true);
+
+    sendMessage({
+      type: "sendMessage",
+      text: text,
+    });
+
+    // Clear input
+    $elements.messageInput.val("").css("height", "60px");
+    updateContextMeter();
+  }
+
+  /**
+   * Show the estimated prompt size, including the message being typed,
+   * against the token budget of the model's context window
+   */
+  function updateContextMeter() {
+    if (!contextUsage) {
+      return;
+    }
+
+    const draft = String($elements.messageInput.val() ?? "");
+    const draftTokens = estimateTokens(draft);
+    const {
+      budget,
+      contextWindow,
+      systemTokens,
+      historyTokens,
+      attachmentTokens,
+    } = contextUsage;
+    const used = systemTokens + historyTokens + attachmentTokens + draftTokens;
+    const ratio = budget > 0 ? used / budget : 1;
+
+    const tooltip = [
+      `Context window: ${contextWindow.toLocaleString()} tokens, ${budget.toLocaleString()} for the prompt`,
+      `System prompt: ~${systemTokens.toLocaleString()}`,
+      `Conversation: ~${historyTokens.toLocaleString()}`,
+      `Attachments: ~${attachmentTokens.toLocaleString()}`,
+      `Message: ~${draftTokens.toLocaleString()}`,
+    ];
+    if (ratio > 1) {
+      tooltip.push(
+        "Older messages and attachments will be trimmed to fit when sending.",
+      );
+    }
+
+    $elements.contextMeter
+      .toggleClass("warning", ratio >= METER_WARNING_RATIO && ratio <= 1)
+      .toggleClass("over", ratio > 1)
+      .attr("title", tooltip.join("\n"))
+      .prop("hidden", false);
+    $elements.contextMeter
+      .find(".context-meter-fill")
+      .css("width", `${Math.min(ratio, 1) * 100}%`);
+    $elements.contextMeter
+      .find(".context-meter-label")
+      .text(`~${formatTokenCount(used)} / ${formatTokenCount(budget)} tokens`);
+  }
+
+  /**
+   * Format generation stats for the footer of a reply
+   */
+  function formatGenerationStats(stats: GenerationStatsData): string {
+    const parts: string[] = [];
+    if (
+      stats.promptTokens !== undefined ||
+      stats.completionTokens !== undefined
+    ) {
+      parts.push(
+        `${formatTokenCount(stats.promptTokens ?? 0)} → ${formatTokenCount(stats.completionTokens ?? 0)} tokens`,
+      );
+    }
+    if (stats.tokensPerSecond !== undefined) {
+      parts.push(`${stats.tokensPerSecond.toFixed(1)} tok/s`);
+    }
+    if (stats.loadDuration !== undefined) {
+      parts.push(`load ${formatDuration(stats.loadDuration)}`);
+    }
+    return parts.join(" · ");
+  }
+
+  /**
+   * Describe generation stats in full for the footer tooltip
+   */
+  function describeGenerationStats(stats: GenerationStatsData): string {
+    return [
+      `Model: ${stats.model}`,
+      stats.promptTokens !== undefined
+        ? `Prompt tokens: ${stats.promptTokens}`
+        : undefined,
+      stats.completionTokens !== undefined
+        ? `Completion tokens: ${stats.completionTokens}`
+        : undefined,
+      stats.tokensPerSecond !== undefined
+        ? `Speed: ${stats.tokensPerSecond.toFixed(1)} tokens/s`
+        : undefined,
+      stats.loadDuration !== undefined
+        ? `Load time: ${formatDuration(stats.loadDuration)}`
+        : undefined,
+      stats.totalDuration !== undefined
+        ? `Total time: ${formatDuration(stats.totalDuration)}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  /**
+   * Show the session title, with the per-model stats of the session in its
+   * tooltip
+   */
+  function updateSessionTitle() {
+    const statsLines = sessionStats.map((summary) => {
+      const parts = [
+        `${summary.replies} repl${summary.replies === 1 ? "y" : "ies"}`,
+        `${formatTokenCount(summary.promptTokens)} → ${formatTokenCount(summary.completionTokens)} tokens`,
+      ];
+      if (summary.tokensPerSecond !== undefined) {
+        parts.push(`${summary.tokensPerSecond.toFixed(1)} tok/s`);
+      }
+      if (summary.loadDuration !== undefined) {
+        parts.push(`load ${formatDuration(summary.loadDuration)}`);
+      }
+      return `${summary.model}: ${parts.join(" · ")}`;
+    });
+
+    $elements.sessionTitle
+      .text(sessionTitle)
+      .attr("title", [sessionTitle, ...statsLines].join("\n"));
+  }
+
+  /**
+   * Format a duration in milliseconds, e.g. 850 ms or 1.2 s
+   */
+  function formatDuration(milliseconds: number): string {
+    return milliseconds < 1000
+      ? `${Math.round(milliseconds)} ms`
+      : `${(milliseconds / 1000).toFixed(1)} s`;
+  }
+
+  /**
+   * Format a token count compactly, e.g. 1.2k
+   */
+  function formatTokenCount(tokens: number): string {
+    return tokens < 1000
+      ? String(tokens)
+      : `${parseFloat((tokens / 1000).toFixed(1))}k`;
+  }
+
+  /**
+   * Toggle between the Send and Stop buttons while a response is generated
+   */
+  function setGenerating(generating: boolean) {
+    isGenerating = generating;
+    $elements.sendBtn.toggle(!generating);
+    $elements.stopBtn.toggle(generating).prop("disabled", false);
+  }
+
+  /**
+   * Send message to extension
+   */
+  function sendMessage(message: WebviewToExtensionMessage) {
+    try {
+      vscode.postMessage(message);
+    } catch (error) {
+      console.error("[Webview] Error sending message:", error);
+    }
+  }
+
+  /**
+   * Handle keyboard events in message input
+   */
+  function handleMessageInputKeydown(e: JQuery.KeyDownEvent) {
+    if (suggestions.length > 0 && handleSuggestionKey(e)) {
+      e.preventDefault();
+      return;
+    }
+
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      sendUserMessage();
+    }
+  }
+
+  /**
+   * Handle navigation keys while suggestions are open.
+   * Returns true when the key was used by the suggestions.
+   */
+  function handleSuggestionKey(e: JQuery.KeyDownEvent): boolean {
+    switch (e.key) {
+      case "ArrowDown":
+        selectSuggestion(selectedSuggestionIndex + 1);
+        return true;
+      case "ArrowUp":
+        selectSuggestion(selectedSuggestionIndex - 1);
+        return true;
+      case "Enter": {
+        // A fully typed command is sent as is
+        const text = String($elements.messageInput.val() ?? "");
+        const suggestion = suggestions[selectedSuggestionIndex];
+        if (e.shiftKey || text === suggestion.completeText) {
+          closeSuggestions();
+          return false;
+        }
+        acceptSuggestion(selectedSuggestionIndex);
+        return true;
+      }
+      case "Tab":
+        acceptSuggestion(selectedSuggestionIndex);
+        return true;
+      case "Escape":
+        closeSuggestions();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Suggest slash commands or @-mentions for what is being typed
+   */
+  function updateInputSuggestions() {
+    const input = $elements.messageInput[0] as HTMLTextAreaElement;
+    const text = input.value;
+
+    const commandMatch = /^\/([\w-]*)$/.exec(text);
+    if (commandMatch) {
+      mentionQuery = undefined;
+      showCommandSuggestions(commandMatch[1].toLowerCase());
+      return;
+    }
+
+    const caret = input.selectionStart;
+    const mentionMatch = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+    if (mentionMatch) {
+      const query = mentionMatch[1];
+      mentionQuery = { start: caret - query.length - 1, end: caret, query };
+      requestMentionSuggestions(query);
+      return;
+    }
+
+    closeSuggestions();
+  }
+
+  /**
+   * Show the commands matching a "/name" prefix
+   */
+  function showCommandSuggestions(prefix: string) {
+    showSuggestions(
+      slashCommands
+        .filter((command) => command.name.startsWith(prefix))
+        .map((command) => ({
+          label: `/${command.name}`,
+          description: command.description,
+          completeText: `/${command.name}`,
+          accept: () => {
+            $elements.messageInput.val(`/${command.name} `).trigger("focus");
+          },
+        })),
+    );
+  }
+
+  /**
+   * Ask the extension for mentions once typing pauses
+   */
+  function requestMentionSuggestions(query: string) {
+    clearTimeout(mentionSearchTimer);
+    mentionSearchTimer = setTimeout(() => {
+      sendMessage({ type: "searchMentions", query });
+    }, MENTION_SEARCH_DELAY_MS);
+  }
+
+  /**
+   * Show the mentions found by the extension, unless the input moved on
+   */
+  function showMentionSuggestions(query: string, mentions: MentionData[]) {
+    if (mentionQuery?.query !== query) {
+      return;
+    }
+
+    showSuggestions(
+      mentions.map((mention) => ({
+        label: `@${mention.label}`,
+        description: mention.description,
+        accept: () => acceptMention(mention),
+      })),
+    );
+  }
+
+  /**
+   * Replace the typed @-mention with a staged attachment
+   */
+  function acceptMention(mention: MentionData) {
+    if (!mentionQuery) {
+      return;
+    }
+
+    const input = $elements.messageInput[0] as HTMLTextAreaElement;
+    const { start, end } = mentionQuery;
+    input.value = input.value.slice(0, start) + input.value.slice(end);
+    input.setSelectionRange(start, start);
+    input.focus();
+    autoResizeTextarea(input);
+
+    sendMessage({ type: "addMention", kind: mention.kind, uri: mention.uri });
+  }
+
+  /**
+   * Render the suggestion popup, or hide it when nothing matches
+   */
+  function showSuggestions(items: InputSuggestion[]) {
+    suggestions = items;
+    $elements.inputSuggestions.empty();
+
+    if (suggestions.length === 0) {
+      $elements.inputSuggestions.prop("hidden", true);
+      return;
+    }
+
+    suggestions.forEach((suggestion, index) => {
+      $("<div>", {
+        class: "input-suggestion",
+        role: "option",
+        "data-index": index,
+      })
+        .append($("<span>", { class: "suggestion-label" }).text(suggestion.label))
+        .append(
+          $("<span>", { class: "suggestion-description" }).text(
+            suggestion.description ?? "",
+          ),
+        )
+        .appendTo($elements.inputSuggestions);
+    });
+
+    selectSuggestion(0);
+    $elements.inputSuggestions.prop("hidden", false);
+  }
+
+  /**
+   * Highlight a suggestion, wrapping around at either end
+   */
+  function selectSuggestion(index: number) {
+    const count = suggestions.length;
+    selectedSuggestionIndex = ((index % count) + count) % count;
+
+    $elements.inputSuggestions
+      .children()
+      .removeClass("active")
+      .attr("aria-selected", "false")
+      .eq(selectedSuggestionIndex)
+      .addClass("active")
+      .attr("aria-selected", "true")
+      .each(function () {
+        this.scrollIntoView({ block: "nearest" });
+      });
+  }
+
+  /**
+   * Apply the chosen suggestion and close the popup
+   */
+  function acceptSuggestion(index: number) {
+    const suggestion = suggestions[index];
+    if (!suggestion) {
+      return;
+    }
+
+    suggestion.accept();
+    closeSuggestions();
+  }
+
+  /**
+   * Close the suggestions and forget any pending mention search
+   */
+  function closeSuggestions() {
+    clearTimeout(mentionSearchTimer);
+    mentionQuery = undefined;
+    suggestions = [];
+    $elements.inputSuggestions.prop("hidden", true).empty();
+  }
+
+  /**
+   * Handle attach button click
+   */
+  function handleAttachButtonClick() {
+    sendMessage({ type: "attachFile" });
+  }
+
+  /**
+   * Handle stop button click
+   */
+  function handleStopClick() {
+    $elements.stopBtn.prop("disabled", true);
+    sendMessage({ type: "stopGeneration" });
+  }
+
+  /**
+   * Handle clear chat button click
+   */
+  function handleClearChatClick() {
+    sendMessage({ type: "clearChat" });
+  }
+
+  /**
+   * Handle model picker changes
+   */
+  function handleModelChange() {
+    sendMessage({
+      type: "selectModel",
+      model: String($elements.modelSelect.val() ?? ""),
+    });
+  }
+
+  /**
+   * Handle refresh models button click
+   */
+  function handleRefreshModelsClick() {
+    sendMessage({ type: "refreshModels" });
+  }
+
+  /**
+   * Ask the extension to check the server connection now
+   */
+  function handleReconnectClick() {
+    $elements.reconnectBtn.prop("disabled", true);
+    sendMessage({ type: "reconnect" });
+  }
+
+  /**
+   * Show or hide the banner warning that the model server is unreachable
+   */
+  function updateConnectionBanner(
+    connected: boolean,
+    serverName: string,
+    serverUrl: string,
+  ) {
+    $elements.reconnectBtn.prop("disabled", false);
+    $elements.connectionBanner
+      .prop("hidden", connected)
+      .find(".connection-banner-text")
+      .text(
+        `⚠️ Cannot reach the ${serverName} server at ${serverUrl}. Retrying in the background.`,
+      );
+  }
+
+  /**
+   * Handle code block toolbar clicks (copy, insert, apply, ...)
+   */
+  function handleCodeBlockActionClick(
+    this: HTMLElement,
+    e: JQuery.ClickEvent,
+  ) {
+    e.preventDefault();
+    const $block = $(this).closest(".code-block");
+
+    sendMessage({
+      type: "codeAction",
+      action: $(this).attr("data-action") as CodeBlockAction,
+      code: $block.find("code").text(),
+      language: $block.attr("data-language") || undefined,
+      messageId: $(this).closest(".message").attr("data-message-id") ?? "",
+    });
+  }
+
+  /**
+   * Run an action offered on an error message
+   */
+  function handleErrorActionClick(this: HTMLElement, e: JQuery.ClickEvent) {
+    e.preventDefault();
+
+    sendMessage({
+      type: "errorAction",
+      action: $(this).attr("data-action") as ErrorAction,
+      messageId: $(this).closest(".message").attr("data-message-id") ?? "",
+    });
+  }
+
+  /**
+   * Fill the model picker, keeping the session's model listed even
+   * when the server does not report it
+   */
+  function updateModelSelect(
+    models: ModelData[],
+    selectedModel: string,
+    connected: boolean,
+  ) {
+    const $select = $elements.modelSelect.empty();
+
+    models.forEach((model) => {
+      $("<option></option>")
+        .val(model.name)
+        .text(formatModelLabel(model))
+        .appendTo($select);
+    });
+
+    if (
+      selectedModel &&
+      !models.some((model) => model.name === selectedModel)
+    ) {
+      $("<option></option>")
+        .val(selectedModel)
+        .text(
+          models.length > 0 || !connected
+            ? `${selectedModel} (unavailable)`
+            : selectedModel,
+        )
+        .appendTo($select);
+    }
+
+    $select.val(selectedModel);
+    $select.attr(
+      "title",
+      connected ? "Model used for this chat" : "AI server is not reachable",
+    );
+  }
+
+  /**
+   * Build a picker label such as "llama3.2 · llama · 3.2B · Q4_K_M"
+   */
+  function formatModelLabel(model: ModelData): string {
+    return [model.name, model.family, model.parameterSize, model.quantization]
+      .filter(Boolean)
+      .join(" · ");
+  }
+
+  /**
+   * Handle clear staged files button click
+   */
+  function handleClearStagedClick() {
+    sendMessage({ type: "clearStagedFile" });
+  }
+
+  /**
+   * Handle messages from extension
+   */
+  function handleExtensionMessage(
+    event: MessageEvent<ExtensionToWebviewMessage>,
+  ) {
+    const message = event.data;
+
+    console.log("[Webview] Received message from extension:", message.type);
+
+    switch (message.type) {
+      case "updateMessages":
+        messages = message.messages || [];
+        sessionStats = message.sessionStats || [];
+        renderMessages();
+        updateSessionTitle();
+        break;
+
+      case "appendMessageContent":
+        appendMessageContent(message.messageId, message.delta);
+        break;
+
+      case "updateGenerationState":
+        setGenerating(!!message.isGenerating);
+        break;
+
+      case "updateModels":
+        updateModelSelect(
+          message.models || [],
+          message.selectedModel,
+          !!message.connected,
+        );
+        break;
+
+      case "updateSession":
+        sessionTitle = message.title || "";
+        updateSessionTitle();
+        break;
+
+      case "updateConnection":
+        updateConnectionBanner(
+          message.connected,
+          message.serverName,
+          message.serverUrl,
+        );
+        break;
+
+      case "updateStagedFile":
+        stagedFiles = message.stagedFiles || [];
+        updateStagedFilesDisplay();
+        break;
+
+      case "updateContextUsage":
+        contextUsage = message.usage;
+        updateContextMeter();
+        break;
+
+      case "updateCommands":
+        slashCommands = message.commands || [];
+        break;
+
+      case "mentionSuggestions":
+        showMentionSuggestions(message.query, message.mentions || []);
+        break;
+
+      case "dropFailed":
+        console.error("[Webview] Drop failed:", message.error);
+        break;
+
+      default:
+        console.log(
+          "[Webview] Unknown message type:",
+          (message as { type?: unknown }).type,
+        );
+    }
+  }
+
+  /**
+   * Initialize the chat interface with jQuery optimizations
+   */
+  function initializeChat() {
+    console.log("[Webview] Initializing jQuery-optimized chat interface...");
+
+    // Wait for DOM to be ready
+    $(document).ready(function () {
+      // Cache DOM elements
+      cacheDOMElements();
+
+      // Verify critical elements exist
+      if (
+        !$elements.messagesContainer.length ||
+        !$elements.messageInput.length ||
+        !$elements.sendBtn.length
+      ) {
+        console.error("[Webview] Critical DOM elements not found");
+        return;
+      }
+
+      // Setup all functionality
+      setupDragAndDrop();
+      setupEventListeners();
+
+      // Initial render
+      renderMessages();
+      updateStagedFilesDisplay();
+
+      // Add loading state management
+      $elements.body.addClass("loaded");
+
+      console.log(
+        "[Webview] jQuery-optimized chat interface initialized successfully",
+      );
+    });
+  }
+
+  /**
+   * Format file size in human-readable format
+   */
+  function formatFileSize(bytes: number): string {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+  }
+
+  /**
+   * Button labels of the actions offered on error messages
+   */
+  const ERROR_ACTION_LABELS: Record<ErrorAction, string> = {
+    retry: "Retry",
+    pullModel: "Pull Model",
+    serverHelp: "Start Server Help",
+    newChat: "New Chat",
+  };
+
+  // Initialize everything
+  initializeChat();
+}
+
+// jQuery, marked and highlight.js are loaded from the extension before this script
+initializeChatWithJQuery();
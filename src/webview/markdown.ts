@@ -0,0 +1,125 @@
+/**
+ * Markdown Rendering for AI Code Assistant VS Code Extension
+ *
+ * This module turns chat messages into HTML for the webview: Markdown is
+ * rendered with marked, code blocks are highlighted and given their action
+ * toolbar, and the result is passed through the sanitizer.
+ *
+ * @fileoverview Markdown rendering of chat messages
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import type { CodeBlockAction } from "./protocol";
+import { sanitizeHtml } from "./sanitize.js";
+
+/**
+ * Libraries loaded by the page before the chat script
+ */
+declare const marked: typeof import("marked");
+declare const hljs: {
+  getLanguage(name: string): object | undefined;
+  highlight(
+    code: string,
+    options: { language: string; ignoreIllegals?: boolean },
+  ): { value: string };
+};
+
+/**
+ * Escape HTML characters
+ */
+export function escapeHtml(text: string | undefined): string {
+  return String(text ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Fence languages that highlight.js knows under another name
+ */
+const HIGHLIGHT_LANGUAGE_ALIASES: Record<string, string> = {
+  vue: "xml",
+  sass: "scss",
+  text: "plaintext",
+};
+
+/**
+ * Buttons of the code block toolbar: action, label and tooltip
+ */
+const CODE_BLOCK_BUTTONS: [CodeBlockAction, string, string][] = [
+  ["copy", "Copy", "Copy to clipboard"],
+  ["insert", "Insert", "Insert at cursor"],
+  ["replace", "Replace", "Replace selection"],
+  ["newFile", "New File", "Open in new file"],
+  ["apply", "Apply", "Apply to file (shows a diff first)"],
+];
+
+/**
+ * Markdown renderer (CommonMark + GFM tables and task lists).
+ * Raw HTML in messages is shown as text; code blocks get the toolbar.
+ */
+const markdown = new marked.Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    code({ text, lang }) {
+      const language = (lang || "").trim().split(/\s+/)[0];
+      return createCodeBlock(text, language.replace(/[^\w+#.-]/g, ""));
+    },
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    // The webview cannot load remote images, so link to them instead
+    image({ href, text }) {
+      return `<a href="${escapeHtml(href)}">${escapeHtml(text || href)}</a>`;
+    },
+  },
+});
+
+/**
+ * Whether code blocks are syntax highlighted while rendering
+ */
+let highlightEnabled = true;
+
+/**
+ * Render message content as Markdown, keeping only allowlisted HTML.
+ * Highlighting can be skipped while a reply is still streaming.
+ */
+export function renderMarkdown(content: string, highlight = true): string {
+  if (!content) return "";
+
+  highlightEnabled = highlight;
+  try {
+    return sanitizeHtml(markdown.parse(content, { async: false }));
+  } finally {
+    highlightEnabled = true;
+  }
+}
+
+/**
+ * Highlight code for a fence language, falling back to plain text
+ */
+function highlightCode(code: string, lang: string): string {
+  const language = HIGHLIGHT_LANGUAGE_ALIASES[lang] || lang;
+  if (highlightEnabled && language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+}
+
+/**
+ * Build a code block with its action toolbar
+ */
+function createCodeBlock(code: string, lang: string): string {
+  const language = lang || "text";
+
+  const buttons = CODE_BLOCK_BUTTONS.map(
+    ([action, label, title]) =>
+      `<button class="code-block-action" data-action="${action}" title="${title}">${label}</button>`,
+  ).join("");
+
+  return `<div class="code-block" data-language="${lang}"><div class="code-block-toolbar"><span class="code-block-language">${language}</span><div class="code-block-actions">${buttons}</div></div><pre><code class="hljs language-${language}">${highlightCode(code, lang)}</code></pre></div>`;
+}
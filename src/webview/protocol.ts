@@ -0,0 +1,290 @@
+/**
+ * Chat Webview Protocol for AI Code Assistant VS Code Extension
+ *
+ * This module defines every message exchanged between the extension and
+ * the chat webview. The extension and the webview script both compile
+ * against it, and messages received from the webview are validated here.
+ *
+ * @fileoverview Message protocol between the extension and the chat webview
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+/**
+ * Actions offered on code blocks in chat answers
+ */
+export const CODE_BLOCK_ACTIONS = [
+  "copy",
+  "insert",
+  "replace",
+  "newFile",
+  "apply",
+] as const;
+
+export type CodeBlockAction = (typeof CODE_BLOCK_ACTIONS)[number];
+
+/**
+ * Kinds of context that can be attached with an @-mention
+ */
+export const MENTION_KINDS = [
+  "file",
+  "selection",
+  "problems",
+  "workspace",
+] as const;
+
+export type MentionKind = (typeof MENTION_KINDS)[number];
+
+/**
+ * Actions offered on an error message, depending on what went wrong
+ */
+export const ERROR_ACTIONS = [
+  "retry",
+  "pullModel",
+  "serverHelp",
+  "newChat",
+] as const;
+
+export type ErrorAction = (typeof ERROR_ACTIONS)[number];
+
+/**
+ * File attached to a chat message, as shown in the webview
+ */
+export interface AttachmentData {
+  fileName: string;
+  filePath: string;
+}
+
+/**
+ * Chat message as shown in the webview
+ */
+export interface ChatMessageData {
+  id: string;
+  sender: "user" | "assistant";
+  content: string;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  fileReferences?: AttachmentData[];
+  isError?: boolean;
+  errorActions?: ErrorAction[];
+  model?: string;
+  requestedModel?: string;
+  stats?: GenerationStatsData;
+}
+
+/**
+ * Timing and token counts of an assistant reply (durations in ms)
+ */
+export interface GenerationStatsData {
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensPerSecond?: number;
+  loadDuration?: number;
+  totalDuration?: number;
+}
+
+/**
+ * Generation stats of the session's replies from one model
+ */
+export interface ModelStatsData {
+  model: string;
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  tokensPerSecond?: number;
+  loadDuration?: number;
+}
+
+/**
+ * File staged for the next message, as shown in the webview
+ */
+export interface StagedFileData {
+  fileName: string;
+  filePath: string;
+  language: string;
+  content: string;
+  size?: number;
+  lineCount?: number;
+  /** Estimated tokens the file takes in the prompt */
+  tokens?: number;
+}
+
+/**
+ * Estimated token use of the conversation, for the budget meter.
+ * The webview adds its own estimate for the message being typed.
+ */
+export interface ContextUsageData {
+  contextWindow: number;
+  /** Tokens available for the prompt, after the reserve for the reply */
+  budget: number;
+  systemTokens: number;
+  historyTokens: number;
+  attachmentTokens: number;
+}
+
+/**
+ * Model listed in the model picker
+ */
+export interface ModelData {
+  name: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+/**
+ * Slash command offered by the input autocomplete
+ */
+export interface SlashCommandData {
+  name: string;
+  description: string;
+}
+
+/**
+ * Context offered by the @-mention autocomplete
+ */
+export interface MentionData {
+  kind: MentionKind;
+  label: string;
+  description?: string;
+  /** File URI for "file" mentions */
+  uri?: string;
+}
+
+/**
+ * Messages sent from the webview to the extension
+ */
+export type WebviewToExtensionMessage =
+  | { type: "sendMessage"; text: string }
+  | { type: "attachFile" }
+  | { type: "filesDropped"; files: string[] }
+  | { type: "textDropped"; text: string }
+  | { type: "dropFailed"; message: string; debugInfo?: string[] }
+  | { type: "removeStagedFile"; index: number }
+  | { type: "clearStagedFile" }
+  | { type: "clearChat" }
+  | { type: "stopGeneration" }
+  | { type: "selectModel"; model: string }
+  | { type: "refreshModels" }
+  | { type: "reconnect" }
+  | { type: "errorAction"; action: ErrorAction; messageId: string }
+  | { type: "searchMentions"; query: string }
+  | { type: "addMention"; kind: MentionKind; uri?: string }
+  | {
+      type: "codeAction";
+      action: CodeBlockAction;
+      code: string;
+      language?: string;
+      messageId: string;
+    };
+
+/**
+ * Messages sent from the extension to the webview
+ */
+export type ExtensionToWebviewMessage =
+  | {
+      type: "updateMessages";
+      messages: ChatMessageData[];
+      sessionStats: ModelStatsData[];
+    }
+  | { type: "appendMessageContent"; messageId: string; delta: string }
+  | { type: "updateGenerationState"; isGenerating: boolean }
+  | { type: "updateSession"; sessionId: string; title: string }
+  | {
+      type: "updateModels";
+      models: ModelData[];
+      selectedModel: string;
+      connected: boolean;
+    }
+  | {
+      type: "updateConnection";
+      connected: boolean;
+      serverName: string;
+      serverUrl: string;
+    }
+  | { type: "updateStagedFile"; stagedFiles: StagedFileData[] }
+  | { type: "updateContextUsage"; usage: ContextUsageData }
+  | { type: "updateCommands"; commands: SlashCommandData[] }
+  | { type: "mentionSuggestions"; query: string; mentions: MentionData[] }
+  | { type: "dropFailed"; error: string };
+
+type MessageFields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string";
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || isString(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+/**
+ * Field checks for each message the webview may send.
+ * Typed as a mapped type so a new message cannot be added without one.
+ */
+const WEBVIEW_MESSAGE_VALIDATORS: {
+  [T in WebviewToExtensionMessage["type"]]: (message: MessageFields) => boolean;
+} = {
+  sendMessage: (message) => isString(message.text),
+  attachFile: () => true,
+  filesDropped: (message) => isStringArray(message.files),
+  textDropped: (message) => isString(message.text),
+  dropFailed: (message) =>
+    isString(message.message) &&
+    (message.debugInfo === undefined || isStringArray(message.debugInfo)),
+  removeStagedFile: (message) =>
+    Number.isInteger(message.index) && (message.index as number) >= 0,
+  clearStagedFile: () => true,
+  clearChat: () => true,
+  stopGeneration: () => true,
+  selectModel: (message) => isString(message.model),
+  refreshModels: () => true,
+  reconnect: () => true,
+  errorAction: (message) =>
+    ERROR_ACTIONS.includes(message.action as ErrorAction) &&
+    isString(message.messageId),
+  searchMentions: (message) => isString(message.query),
+  addMention: (message) =>
+    MENTION_KINDS.includes(message.kind as MentionKind) &&
+    (message.kind === "file"
+      ? isString(message.uri)
+      : isOptionalString(message.uri)),
+  codeAction: (message) =>
+    CODE_BLOCK_ACTIONS.includes(message.action as CodeBlockAction) &&
+    isString(message.code) &&
+    isOptionalString(message.language) &&
+    isString(message.messageId),
+};
+
+/**
+ * Checks a message received from the webview.
+ * Returns undefined for unknown types or malformed fields.
+ */
+export function parseWebviewMessage(
+  value: unknown,
+): WebviewToExtensionMessage | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+
+  const message = value as MessageFields;
+  if (
+    !isString(message.type) ||
+    !Object.prototype.hasOwnProperty.call(
+      WEBVIEW_MESSAGE_VALIDATORS,
+      message.type,
+    )
+  ) {
+    return undefined;
+  }
+
+  const validate =
+    WEBVIEW_MESSAGE_VALIDATORS[
+      message.type as WebviewToExtensionMessage["type"]
+    ];
+  return validate(message)
+    ? (message as unknown as WebviewToExtensionMessage)
+    : undefined;
+}
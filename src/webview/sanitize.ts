@@ -0,0 +1,181 @@
+/**
+ * HTML Sanitizer for AI Code Assistant VS Code Extension
+ *
+ * This module cleans the HTML rendered from model replies before the chat
+ * webview shows it. Only allowlisted tags, attributes, classes and link
+ * targets are kept, so a reply cannot run script or load content.
+ *
+ * @fileoverview Allowlist HTML sanitizer for chat messages
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+import { CODE_BLOCK_ACTIONS } from "./protocol.js";
+
+/**
+ * Tags removed together with their content
+ */
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "template",
+  "noscript",
+  "svg",
+  "math",
+  "img",
+  "video",
+  "audio",
+  "source",
+  "link",
+  "meta",
+  "base",
+  "form",
+  "textarea",
+  "select",
+  "option",
+]);
+
+/**
+ * Allowed tags and the attributes each may keep; other tags are
+ * replaced by their children
+ */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ["href", "title"],
+  blockquote: [],
+  br: [],
+  button: ["class", "data-action", "title"],
+  code: ["class"],
+  del: [],
+  div: ["class", "data-language"],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  input: ["type", "checked", "disabled"],
+  li: [],
+  ol: ["start"],
+  p: [],
+  pre: [],
+  s: [],
+  span: ["class"],
+  strong: [],
+  table: [],
+  tbody: [],
+  td: ["align"],
+  th: ["align"],
+  thead: [],
+  tr: [],
+  ul: [],
+};
+
+/**
+ * Classes produced by the Markdown renderer and highlight.js
+ */
+const ALLOWED_CLASS =
+  /^(hljs(-[\w-]+)?|\w+_|language-[\w+#.-]+|code-block(-[\w]+)?)$/;
+
+/**
+ * Link targets that may be followed (no javascript:, data:, ...)
+ */
+const ALLOWED_URL = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Attribute values that must come from a fixed set
+ */
+const ALLOWED_VALUES: Record<string, string[]> = {
+  "data-action": [...CODE_BLOCK_ACTIONS],
+  type: ["checkbox"],
+  align: ["left", "center", "right"],
+};
+
+/**
+ * Remove everything from rendered HTML that is not on the allowlist
+ */
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+  return template.innerHTML;
+}
+
+/**
+ * Sanitize the children of a node in place
+ */
+function sanitizeChildren(node: Node) {
+  Array.from(node.childNodes).forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+
+    if (!(child instanceof Element)) {
+      child.remove();
+      return;
+    }
+
+    const tag = child.nodeName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove();
+      return;
+    }
+
+    sanitizeChildren(child);
+
+    if (!Object.prototype.hasOwnProperty.call(ALLOWED_TAGS, tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+
+    sanitizeAttributes(child, ALLOWED_TAGS[tag]);
+
+    // Only disabled checkboxes (GFM task lists) are allowed as inputs
+    if (tag === "input" && !child.hasAttribute("type")) {
+      child.remove();
+    } else if (tag === "input") {
+      child.setAttribute("disabled", "");
+    }
+  });
+}
+
+/**
+ * Drop attributes that are not allowed or hold unsafe values
+ */
+function sanitizeAttributes(element: Element, allowedAttributes: string[]) {
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    if (!allowedAttributes.includes(name) || !isSafeAttribute(name, value)) {
+      element.removeAttribute(name);
+    }
+  });
+
+  if (element.nodeName === "A") {
+    element.setAttribute("rel", "noopener noreferrer");
+  }
+}
+
+/**
+ * Check an allowed attribute's value
+ */
+function isSafeAttribute(name: string, value: string): boolean {
+  if (name === "href") {
+    return ALLOWED_URL.test(value.trim());
+  }
+  if (name === "class") {
+    return value
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((className) => ALLOWED_CLASS.test(className));
+  }
+  if (ALLOWED_VALUES[name]) {
+    return ALLOWED_VALUES[name].includes(value);
+  }
+  return true;
+}
@@ -0,0 +1,36 @@
+/**
+ * Token Estimation for AI Code Assistant VS Code Extension
+ *
+ * This module estimates how many tokens a text takes in a prompt. The
+ * extension trims prompts with it and the chat webview sizes the draft
+ * message with it, so the budget meter and the trimming agree.
+ *
+ * @fileoverview Shared token estimate
+ * @author SRIDHARAN THILLAIYAPPAN
+ * @version 1.0.0
+ */
+
+/**
+ * Estimates the number of tokens a model tokenizer produces for a text.
+ * Mirrors how BPE tokenizers split text: words cost about one token per
+ * four letters, numbers one per three digits, symbols one per two, and
+ * whitespace is mostly merged into the neighbouring tokens.
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[A-Za-z]+|\d+|\s+|[^A-Za-z\d\s]+/g) ?? [];
+  let tokens = 0;
+
+  for (const piece of pieces) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.max(1, Math.round(piece.length / 4));
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^\s/.test(piece)) {
+      tokens += piece === " " ? 0 : Math.ceil(piece.length / 8);
+    } else {
+      tokens += Math.ceil(piece.length / 2);
+    }
+  }
+
+  return tokens;
+}